@@ -0,0 +1,564 @@
+import { basename, extname } from 'path';
+import * as ts_module from 'typescript/lib/tsserverlibrary';
+
+/**
+ * A change of the severity of a rule in an eslint config file
+ */
+export interface RuleConfigEdit {
+  readonly ruleId: string;
+  readonly severity: "off" | "warn";
+  /**
+   * Patterns of an `overrides` block to add the rule to, relative to the
+   * config file. The top level `rules` are changed if not given.
+   */
+  readonly files?: readonly string[];
+}
+
+type ConfigFileFormat = "json" | "js" | "yaml" | "package.json";
+
+/**
+ * Compute the text change that applies the edit to the given legacy config
+ * file. JSON files, `module.exports = { ... }` in JavaScript files, YAML files
+ * in block style and the `eslintConfig` field of a `package.json` are
+ * supported. Returns undefined if the config can not be changed safely.
+ */
+export function getRuleConfigTextChange(
+  ts: typeof ts_module,
+  configFilePath: string,
+  text: string,
+  edit: RuleConfigEdit
+): ts_module.TextChange | undefined {
+  const format = getConfigFileFormat(configFilePath, text);
+  switch (format) {
+    case "json":
+    case "package.json":
+    case "js": {
+      const file =
+        format === "js"
+          ? ts.createSourceFile(
+              configFilePath,
+              text,
+              ts.ScriptTarget.Latest,
+              true,
+              ts.ScriptKind.JS
+            )
+          : ts.parseJsonText(configFilePath, text);
+      const config =
+        format === "js"
+          ? findModuleExportsObject(ts, file)
+          : findJsonConfigObject(ts, file, format === "package.json");
+      if (!config) {
+        return undefined;
+      }
+      const context: ObjectEditContext = {
+        ts,
+        file,
+        newLine: getNewLine(text),
+        indentUnit: getIndentUnit(text),
+        quote: format === "js" ? getQuote(ts, file) : '"',
+        quoteAllKeys: format !== "js"
+      };
+      return editConfigObject(context, config, edit);
+    }
+    case "yaml":
+      return getYamlTextChange(text, edit);
+    default:
+      return undefined;
+  }
+}
+
+function getConfigFileFormat(
+  configFilePath: string,
+  text: string
+): ConfigFileFormat | undefined {
+  const name = basename(configFilePath);
+  if (name === "package.json") {
+    return "package.json";
+  }
+  switch (extname(name)) {
+    case ".json":
+      return "json";
+    case ".js":
+    case ".cjs":
+      return "js";
+    case ".yaml":
+    case ".yml":
+      return "yaml";
+  }
+  if (name === ".eslintrc") {
+    // the legacy file is parsed as YAML, which includes JSON
+    return text.trim().startsWith("{") ? "json" : "yaml";
+  }
+  return undefined;
+}
+
+interface ObjectEditContext {
+  readonly ts: typeof ts_module;
+  readonly file: ts_module.SourceFile;
+  readonly newLine: string;
+  readonly indentUnit: string;
+  readonly quote: string;
+  /**
+   * Quote property names that are valid identifiers too, as JSON requires
+   */
+  readonly quoteAllKeys: boolean;
+}
+
+function findJsonConfigObject(
+  ts: typeof ts_module,
+  file: ts_module.SourceFile,
+  isPackageJson: boolean
+): ts_module.ObjectLiteralExpression | undefined {
+  const statement = file.statements[0];
+  const root =
+    statement && ts.isExpressionStatement(statement)
+      ? statement.expression
+      : undefined;
+  if (!root || !ts.isObjectLiteralExpression(root)) {
+    return undefined;
+  }
+  if (!isPackageJson) {
+    return root;
+  }
+  const field = findProperty(ts, root, "eslintConfig");
+  return field && ts.isObjectLiteralExpression(field.initializer)
+    ? field.initializer
+    : undefined;
+}
+
+function findModuleExportsObject(
+  ts: typeof ts_module,
+  file: ts_module.SourceFile
+): ts_module.ObjectLiteralExpression | undefined {
+  for (const statement of file.statements) {
+    if (
+      ts.isExpressionStatement(statement) &&
+      ts.isBinaryExpression(statement.expression) &&
+      statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      statement.expression.left.getText(file) === "module.exports" &&
+      ts.isObjectLiteralExpression(statement.expression.right)
+    ) {
+      return statement.expression.right;
+    }
+  }
+  return undefined;
+}
+
+function editConfigObject(
+  context: ObjectEditContext,
+  config: ts_module.ObjectLiteralExpression,
+  edit: RuleConfigEdit
+): ts_module.TextChange | undefined {
+  const { ts } = context;
+  if (edit.files) {
+    const block = {
+      files: edit.files,
+      rules: { [edit.ruleId]: edit.severity }
+    };
+    const overrides = findProperty(ts, config, "overrides");
+    if (!overrides) {
+      return insertProperty(context, config, "overrides", [block]);
+    }
+    return ts.isArrayLiteralExpression(overrides.initializer)
+      ? insertElement(context, overrides.initializer, block)
+      : undefined;
+  }
+
+  const rules = findProperty(ts, config, "rules");
+  if (!rules) {
+    return insertProperty(context, config, "rules", {
+      [edit.ruleId]: edit.severity
+    });
+  }
+  if (!ts.isObjectLiteralExpression(rules.initializer)) {
+    return undefined;
+  }
+  const rule = findProperty(ts, rules.initializer, edit.ruleId);
+  if (!rule) {
+    return insertProperty(
+      context,
+      rules.initializer,
+      edit.ruleId,
+      edit.severity
+    );
+  }
+
+  // keep the options of `["error", { ... }]`
+  let severity = rule.initializer;
+  if (ts.isArrayLiteralExpression(severity) && severity.elements.length > 0) {
+    severity = severity.elements[0];
+  }
+  const start = severity.getStart(context.file);
+  return {
+    span: { start, length: severity.end - start },
+    newText: formatValue(context, edit.severity, undefined)
+  };
+}
+
+function findProperty(
+  ts: typeof ts_module,
+  object: ts_module.ObjectLiteralExpression,
+  name: string
+): ts_module.PropertyAssignment | undefined {
+  for (const property of object.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      (ts.isIdentifier(property.name) ||
+        ts.isStringLiteral(property.name) ||
+        ts.isNoSubstitutionTemplateLiteral(property.name)) &&
+      property.name.text === name
+    ) {
+      return property;
+    }
+  }
+  return undefined;
+}
+
+function insertProperty(
+  context: ObjectEditContext,
+  object: ts_module.ObjectLiteralExpression,
+  name: string,
+  value: ConfigValue
+): ts_module.TextChange | undefined {
+  return insertListItem(
+    context,
+    object,
+    object.properties,
+    (indent) =>
+      `${formatKey(context, name)}: ${formatValue(context, value, indent)}`
+  );
+}
+
+function insertElement(
+  context: ObjectEditContext,
+  array: ts_module.ArrayLiteralExpression,
+  value: ConfigValue
+): ts_module.TextChange | undefined {
+  return insertListItem(context, array, array.elements, (indent) =>
+    formatValue(context, value, indent)
+  );
+}
+
+/**
+ * Append an item to the properties of an object or the elements of an array,
+ * on a line of its own unless the existing items share a line.
+ */
+function insertListItem(
+  context: ObjectEditContext,
+  list: ts_module.Node,
+  items: ts_module.NodeArray<ts_module.Node>,
+  formatItem: (indent: string | undefined) => string
+): ts_module.TextChange | undefined {
+  const { file, newLine } = context;
+  const text = file.text;
+  const listStart = list.getStart(file);
+
+  if (items.length === 0) {
+    const inner = text.slice(listStart + 1, list.end - 1);
+    // do not drop comments
+    if (inner.trim() !== "") {
+      return undefined;
+    }
+    const indent = getLineIndent(text, listStart);
+    const itemIndent = indent + context.indentUnit;
+    return {
+      span: { start: listStart + 1, length: inner.length },
+      newText: `${newLine}${itemIndent}${formatItem(
+        itemIndent
+      )}${newLine}${indent}`
+    };
+  }
+
+  const last = items[items.length - 1];
+  const lastStart = last.getStart(file);
+  const lastEnd = items.hasTrailingComma
+    ? text.indexOf(",", last.end) + 1
+    : last.end;
+  const position = { start: lastEnd, length: 0 };
+  if (
+    file.getLineAndCharacterOfPosition(lastStart).line ===
+    file.getLineAndCharacterOfPosition(listStart).line
+  ) {
+    const item = formatItem(undefined);
+    return {
+      span: position,
+      newText: items.hasTrailingComma ? ` ${item},` : `, ${item}`
+    };
+  }
+  const indent = getLineIndent(text, lastStart);
+  const item = formatItem(indent);
+  return {
+    span: position,
+    newText: items.hasTrailingComma
+      ? `${newLine}${indent}${item},`
+      : `,${newLine}${indent}${item}`
+  };
+}
+
+type ConfigValue = string | ReadonlyArray<string | ConfigObject> | ConfigObject;
+
+interface ConfigObject {
+  readonly [key: string]: ConfigValue;
+}
+
+/**
+ * Format a value for the given indentation of its line, on a single line if
+ * the indentation is undefined. Arrays of strings are always single line.
+ */
+function formatValue(
+  context: ObjectEditContext,
+  value: ConfigValue,
+  indent: string | undefined
+): string {
+  if (typeof value === "string") {
+    return formatString(context, value);
+  }
+
+  const isArray = Array.isArray(value);
+  const items: string[] = [];
+  const itemIndent =
+    indent === undefined ||
+    (isArray &&
+      (value as readonly unknown[]).every((x) => typeof x === "string"))
+      ? undefined
+      : indent + context.indentUnit;
+  if (isArray) {
+    for (const item of value as readonly ConfigValue[]) {
+      items.push(formatValue(context, item, itemIndent));
+    }
+  } else {
+    const object = value as ConfigObject;
+    for (const key of Object.keys(object)) {
+      items.push(
+        `${formatKey(context, key)}: ${formatValue(
+          context,
+          object[key],
+          itemIndent
+        )}`
+      );
+    }
+  }
+
+  const [open, close] = isArray ? ["[", "]"] : ["{", "}"];
+  if (itemIndent === undefined) {
+    return isArray
+      ? `${open}${items.join(", ")}${close}`
+      : `${open} ${items.join(", ")} ${close}`;
+  }
+  const separator = `,${context.newLine}${itemIndent}`;
+  return `${open}${context.newLine}${itemIndent}${items.join(separator)}${
+    context.newLine
+  }${indent}${close}`;
+}
+
+function formatKey(context: ObjectEditContext, key: string): string {
+  return !context.quoteAllKeys && /^[A-Za-z_$][\w$]*$/.test(key)
+    ? key
+    : formatString(context, key);
+}
+
+function formatString(context: ObjectEditContext, value: string): string {
+  if (context.quote === '"') {
+    return JSON.stringify(value);
+  }
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * The quote of the first string literal of a JavaScript file, so that new
+ * strings match the existing code
+ */
+function getQuote(ts: typeof ts_module, file: ts_module.SourceFile): string {
+  let quote: string | undefined;
+  const visit = (node: ts_module.Node): void => {
+    if (quote) {
+      return;
+    }
+    if (ts.isStringLiteral(node)) {
+      quote = file.text[node.getStart(file)];
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(file);
+  return quote || "'";
+}
+
+/**
+ * Compute the change of a YAML config in block style. The YAML is not parsed,
+ * only the top level `rules` and `overrides` blocks are looked up line by
+ * line.
+ */
+function getYamlTextChange(
+  text: string,
+  edit: RuleConfigEdit
+): ts_module.TextChange | undefined {
+  const newLine = getNewLine(text);
+  const indentUnit = getIndentUnit(text);
+  const key = formatYamlKey(edit.ruleId);
+
+  if (edit.files) {
+    const files = edit.files.map((x) => JSON.stringify(x)).join(", ");
+    const overrides = findYamlBlock(text, "overrides");
+    if (overrides === null) {
+      return undefined;
+    }
+    const itemIndent = overrides ? overrides.childIndent : indentUnit;
+    const item = [
+      `${itemIndent}- files: [${files}]`,
+      `${itemIndent}  rules:`,
+      `${itemIndent}  ${indentUnit}${key}: ${edit.severity}`
+    ];
+    return overrides
+      ? insertYamlLines(text, overrides.end, item, newLine)
+      : insertYamlLines(text, text.length, ["overrides:", ...item], newLine);
+  }
+
+  const rules = findYamlBlock(text, "rules");
+  if (rules === null) {
+    return undefined;
+  }
+  if (!rules) {
+    return insertYamlLines(
+      text,
+      text.length,
+      ["rules:", `${indentUnit}${key}: ${edit.severity}`],
+      newLine
+    );
+  }
+
+  const rulePattern = new RegExp(
+    `^${rules.childIndent}(["']?)${escapeRegExp(
+      edit.ruleId
+    )}\\1[ \\t]*:[ \\t]*(\\[[ \\t]*)?(["']?)(\\w*)\\3`
+  );
+  for (const line of getLines(text)) {
+    const match =
+      line.start > rules.start && line.end <= rules.end
+        ? rulePattern.exec(line.text)
+        : null;
+    if (!match) {
+      continue;
+    }
+    if (!match[4]) {
+      // block sequences and mappings are not supported
+      return undefined;
+    }
+    // replace the severity of `rule: error` or `rule: [error, ...]`
+    const end = line.start + match[0].length;
+    const start = end - match[4].length - 2 * match[3].length;
+    return {
+      span: { start, length: end - start },
+      newText: edit.severity
+    };
+  }
+  return insertYamlLines(
+    text,
+    rules.end,
+    [`${rules.childIndent}${key}: ${edit.severity}`],
+    newLine
+  );
+}
+
+/**
+ * Find the lines of a top level key of a YAML file. Returns null if the key
+ * has an inline value, which is not supported.
+ */
+function findYamlBlock(
+  text: string,
+  name: string
+): { start: number, end: number, childIndent: string } | undefined | null {
+  const lines = getLines(text);
+  const keyPattern = new RegExp(`^(["']?)${name}\\1[ \\t]*:[ \\t]*(#.*)?$`);
+  const index = lines.findIndex((x) => keyPattern.test(x.text));
+  if (index === -1) {
+    return lines.some((x) =>
+      new RegExp(`^(["']?)${name}\\1[ \\t]*:`).test(x.text)
+    )
+      ? null
+      : undefined;
+  }
+
+  let end = lines[index].end;
+  let childIndent: string | undefined;
+  for (const line of lines.slice(index + 1)) {
+    const content = line.text.trim();
+    if (content === "" || content.startsWith("#")) {
+      continue;
+    }
+    // the items of a sequence may be at the indentation of its key
+    const indent = (/^[ \t]*/.exec(line.text) || [""])[0];
+    if (indent === "" && !content.startsWith("- ")) {
+      break;
+    }
+    if (childIndent === undefined) {
+      childIndent = indent;
+    }
+    end = line.end;
+  }
+  return {
+    start: lines[index].end,
+    end,
+    childIndent: childIndent === undefined ? "  " : childIndent
+  };
+}
+
+/**
+ * Insert lines at the end of a line
+ */
+function insertYamlLines(
+  text: string,
+  position: number,
+  lines: string[],
+  newLine: string
+): ts_module.TextChange {
+  const lineBreak = text.startsWith(newLine, position)
+    ? newLine
+    : text.startsWith("\n", position)
+    ? "\n"
+    : "";
+  const start = position + lineBreak.length;
+  const prefix = lineBreak || position === 0 ? "" : newLine;
+  return {
+    span: { start, length: 0 },
+    newText: prefix + lines.map((x) => x + newLine).join("")
+  };
+}
+
+function formatYamlKey(name: string): string {
+  return /^[A-Za-z_][\w/-]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * The lines of a text with their positions, without line breaks
+ */
+function getLines(
+  text: string
+): Array<{ text: string, start: number, end: number }> {
+  const lines: Array<{ text: string, start: number, end: number }> = [];
+  let start = 0;
+  for (const line of text.split("\n")) {
+    const content = line.endsWith("\r") ? line.slice(0, -1) : line;
+    lines.push({ text: content, start, end: start + content.length });
+    start += line.length + 1;
+  }
+  return lines;
+}
+
+function getLineIndent(text: string, position: number): string {
+  const lineStart = text.lastIndexOf("\n", position - 1) + 1;
+  return (/^[ \t]*/.exec(text.slice(lineStart, position)) || [""])[0];
+}
+
+function getIndentUnit(text: string): string {
+  const match = /^([ \t]+)\S/m.exec(text);
+  return match ? match[1] : "  ";
+}
+
+function getNewLine(text: string): string {
+  return text.indexOf("\r\n") !== -1 ? "\r\n" : "\n";
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -1,25 +1,111 @@
+import { basename, normalize } from 'path';
 import * as ts_module from 'typescript/lib/tsserverlibrary';
 
+import { isConfigFileName } from './runner/configFiles';
+
+interface Watch {
+    readonly watcher: ts_module.FileWatcher;
+    references: number;
+}
+
+/**
+ * Watches the config files and directories of the config cascades of the
+ * linted files, as long as they are in the cascade of at least one file
+ */
 export class ConfigFileWatcher {
-    private readonly _watchedConfigs = new Set<string>();
+    private readonly _watchedConfigs = new Map<string, Watch>();
+    private readonly _watchedDirectories = new Map<string, Watch>();
+    private readonly _cascades = new Map<string, { configFiles: string[], directories: string[] }>();
 
     public constructor(
         private readonly ts: typeof ts_module,
         private readonly onChange: (fileName: string) => void
     ) { }
 
-    public ensureWatching(file: string) {
-        if (!this.ts.sys.watchFile) {
-            return;
+    /**
+     * Watch the config cascade of a linted file instead of its previous one.
+     * Config files report changes, their deletion and their recreation,
+     * directories report config files that are created in them.
+     */
+    public setCascade(lintedFile: string, configFiles: string[], directories: string[]) {
+        const previous = this._cascades.get(lintedFile);
+        const cascade = {
+            configFiles: configFiles.map(file => normalize(file)),
+            directories: directories.map(directory => normalize(directory))
+        };
+        this._cascades.set(lintedFile, cascade);
+        // add before removing, so that paths in both cascades stay watched
+        for (const file of cascade.configFiles) {
+            this.addReference(this._watchedConfigs, file, () => this.watchFile(file));
         }
-        if (this._watchedConfigs.has(file)) {
+        for (const directory of cascade.directories) {
+            this.addReference(this._watchedDirectories, directory, () => this.watchDirectory(directory));
+        }
+        if (previous) {
+            this.removeCascade(previous);
+        }
+    }
+
+    public dispose() {
+        for (const watch of this._watchedConfigs.values()) {
+            watch.watcher.close();
+        }
+        for (const watch of this._watchedDirectories.values()) {
+            watch.watcher.close();
+        }
+        this._watchedConfigs.clear();
+        this._watchedDirectories.clear();
+        this._cascades.clear();
+    }
+
+    private removeCascade(cascade: { configFiles: string[], directories: string[] }) {
+        for (const file of cascade.configFiles) {
+            this.removeReference(this._watchedConfigs, file);
+        }
+        for (const directory of cascade.directories) {
+            this.removeReference(this._watchedDirectories, directory);
+        }
+    }
+
+    private addReference(watches: Map<string, Watch>, path: string, watch: () => ts_module.FileWatcher | undefined) {
+        const existing = watches.get(path);
+        if (existing) {
+            existing.references++;
             return;
         }
-        this._watchedConfigs.add(file);
-        this.ts.sys.watchFile(file, (fileName: string, eventKind: ts.FileWatcherEventKind) => {
-            if (eventKind === this.ts.FileWatcherEventKind.Changed) {
+        const watcher = watch();
+        if (watcher) {
+            watches.set(path, { watcher, references: 1 });
+        }
+    }
+
+    private removeReference(watches: Map<string, Watch>, path: string) {
+        const existing = watches.get(path);
+        if (existing && --existing.references === 0) {
+            existing.watcher.close();
+            watches.delete(path);
+        }
+    }
+
+    private watchFile(file: string): ts_module.FileWatcher | undefined {
+        if (!this.ts.sys.watchFile) {
+            return undefined;
+        }
+        return this.ts.sys.watchFile(file, (fileName: string) => {
+            this.onChange(fileName);
+        });
+    }
+
+    private watchDirectory(directory: string): ts_module.FileWatcher | undefined {
+        if (!this.ts.sys.watchDirectory) {
+            return undefined;
+        }
+        return this.ts.sys.watchDirectory(directory, (fileName: string) => {
+            // changes of watched files are reported by their file watcher,
+            // the next lint adds new config files to the cascade
+            if (isConfigFileName(basename(fileName)) && !this._watchedConfigs.has(normalize(fileName))) {
                 this.onChange(fileName);
             }
-        });
+        }, false);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,57 @@
+import * as minimatch from 'minimatch';
+
+/**
+ * How editors render the diagnostics of a rule: faded like unused code,
+ * struck through like deprecated code, or without a tag
+ */
+export type DiagnosticTag = "unnecessary" | "deprecated" | "none";
+
+/**
+ * Tags of well-known rules, used unless `ruleDiagnosticTags` configures a tag
+ * for the rule
+ */
+const builtInTags: { readonly [ruleId: string]: DiagnosticTag } = {
+  "no-unused-vars": "unnecessary",
+  "no-unused-labels": "unnecessary",
+  "no-unused-private-class-members": "unnecessary",
+  "no-unreachable": "unnecessary",
+  "no-useless-constructor": "unnecessary",
+  "no-useless-rename": "unnecessary",
+  "no-useless-return": "unnecessary",
+  "@typescript-eslint/no-unused-vars": "unnecessary",
+  "@typescript-eslint/no-useless-constructor": "unnecessary",
+  "@typescript-eslint/no-unnecessary-type-assertion": "unnecessary",
+  "unused-imports/no-unused-imports": "unnecessary",
+  "unused-imports/no-unused-vars": "unnecessary",
+  "@typescript-eslint/no-deprecated": "deprecated",
+  "deprecation/deprecation": "deprecated",
+  "import/no-deprecated": "deprecated",
+  "react/no-deprecated": "deprecated"
+};
+
+/**
+ * Find the tag of the diagnostics of a rule. Like `ruleSeverityOverrides`, the
+ * configured tags are looked up by rule id before glob patterns, which are
+ * tried in the order they are written.
+ */
+export function getRuleDiagnosticTag(
+  configuredTags: { readonly [rule: string]: string } | undefined,
+  ruleId: string | null
+): DiagnosticTag {
+  if (!ruleId) {
+    return "none";
+  }
+  if (configuredTags) {
+    if (Object.prototype.hasOwnProperty.call(configuredTags, ruleId)) {
+      return configuredTags[ruleId].toLowerCase() as DiagnosticTag;
+    }
+    for (const pattern of Object.keys(configuredTags)) {
+      if (minimatch(ruleId, pattern)) {
+        return configuredTags[pattern].toLowerCase() as DiagnosticTag;
+      }
+    }
+  }
+  return Object.prototype.hasOwnProperty.call(builtInTags, ruleId)
+    ? builtInTags[ruleId]
+    : "none";
+}
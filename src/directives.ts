@@ -0,0 +1,459 @@
+import * as ts_module from 'typescript/lib/tsserverlibrary';
+
+/**
+ * Where a disable directive inserted by a quick fix applies
+ */
+export type DisableRuleScope = "next-line" | "line" | "file";
+
+type DirectiveName =
+  | "eslint-disable"
+  | "eslint-disable-line"
+  | "eslint-disable-next-line";
+
+interface DirectiveComment {
+  readonly name: DirectiveName;
+  /**
+   * Position of the comment start, including the `{` of a JSX expression
+   */
+  readonly start: number;
+  /**
+   * Position after the comment end, including the `}` of a JSX expression
+   */
+  readonly end: number;
+  readonly rules: ReadonlyArray<{ name: string, start: number, end: number }>;
+  /**
+   * Position after the last rule of the rule list
+   */
+  readonly rulesEnd: number;
+}
+
+const lineDirectivePattern = /(\/\/|\/\*)[ \t]*(eslint-disable(?:-next-line|-line)?)(?![\w-])/g;
+
+/**
+ * Compute the text change that disables a rule for the given zero based line
+ * of a file. Existing directives of the same scope are extended with the rule,
+ * otherwise a new directive comment is inserted. Lines within JSX children use
+ * the `{/* ... *\/}` form. Returns undefined if no directive can be inserted
+ * safely, e.g. when the line starts inside a template literal, or if the rule
+ * is already disabled by the directive.
+ */
+export function getDisableRuleTextChange(
+  ts: typeof ts_module,
+  file: ts_module.SourceFile,
+  ruleId: string,
+  line: number,
+  scope: DisableRuleScope,
+  description?: string
+): ts_module.TextChange | undefined {
+  switch (scope) {
+    case "next-line":
+      return getNextLineTextChange(ts, file, ruleId, line, description);
+    case "line":
+      return getSameLineTextChange(ts, file, ruleId, line, description);
+    case "file":
+      return getFileTextChange(ts, file, ruleId, description);
+  }
+}
+
+function getNextLineTextChange(
+  ts: typeof ts_module,
+  file: ts_module.SourceFile,
+  ruleId: string,
+  line: number,
+  description: string | undefined
+): ts_module.TextChange | undefined {
+  const lineStarts = file.getLineStarts();
+  if (line > 0) {
+    const previousLineStart = lineStarts[line - 1];
+    const existing = findLineDirectives(
+      file.text,
+      previousLineStart,
+      file.getLineEndOfPosition(previousLineStart)
+    ).filter((x) => x.name === "eslint-disable-next-line");
+    // only a directive that is the sole content of the previous line is extended
+    if (
+      existing.length > 0 &&
+      file.text.slice(previousLineStart, existing[0].start).trim() === ""
+    ) {
+      return addRuleToDirective(existing[0], ruleId);
+    }
+  }
+
+  const lineStart = lineStarts[line];
+  const context = getInsertionContext(ts, file, lineStart);
+  if (context === "unsupported") {
+    return undefined;
+  }
+  const lineEnd = file.getLineEndOfPosition(lineStart);
+  const lineText = file.text.slice(lineStart, lineEnd);
+  const indent = (/^[ \t]*/.exec(lineText) || [""])[0];
+  const directive = formatDirective(
+    "eslint-disable-next-line",
+    ruleId,
+    description
+  );
+  return {
+    newText:
+      context === "jsx"
+        ? `${indent}{/* ${directive} */}${getNewLine(file)}`
+        : `${indent}// ${directive}${getNewLine(file)}`,
+    span: { start: lineStart, length: 0 }
+  };
+}
+
+function getSameLineTextChange(
+  ts: typeof ts_module,
+  file: ts_module.SourceFile,
+  ruleId: string,
+  line: number,
+  description: string | undefined
+): ts_module.TextChange | undefined {
+  const lineStart = file.getLineStarts()[line];
+  const lineEnd = file.getLineEndOfPosition(lineStart);
+  const existing = findLineDirectives(file.text, lineStart, lineEnd).filter(
+    (x) => x.name === "eslint-disable-line"
+  );
+  if (existing.length > 0) {
+    return addRuleToDirective(existing[existing.length - 1], ruleId);
+  }
+
+  const context = getInsertionContext(ts, file, lineEnd);
+  if (context === "unsupported") {
+    return undefined;
+  }
+  const directive = formatDirective("eslint-disable-line", ruleId, description);
+  if (context === "jsx") {
+    // a space would change the rendered text
+    return {
+      newText: `{/* ${directive} */}`,
+      span: { start: lineEnd, length: 0 }
+    };
+  }
+
+  // a directive appended to a line comment would be part of that comment
+  const lineComment = getTrailingLineComment(ts, file, lineStart, lineEnd);
+  if (lineComment) {
+    return {
+      newText: `/* ${directive} */ `,
+      span: { start: lineComment.pos, length: 0 }
+    };
+  }
+  return {
+    newText: ` // ${directive}`,
+    span: { start: lineEnd, length: 0 }
+  };
+}
+
+function getFileTextChange(
+  ts: typeof ts_module,
+  file: ts_module.SourceFile,
+  ruleId: string,
+  description: string | undefined
+): ts_module.TextChange | undefined {
+  const text = file.text;
+  for (const comment of ts.getLeadingCommentRanges(text, 0) || []) {
+    if (comment.kind !== ts.SyntaxKind.MultiLineCommentTrivia) {
+      continue;
+    }
+    const directive = parseDirective(text, comment.pos);
+    if (directive && directive.name === "eslint-disable") {
+      return addRuleToDirective(directive, ruleId);
+    }
+  }
+
+  const newLine = getNewLine(file);
+  const comment = `/* ${formatDirective(
+    "eslint-disable",
+    ruleId,
+    description
+  )} */`;
+  const shebang = /^#!.*(\r?\n)?/.exec(text);
+  if (!shebang) {
+    return { newText: `${comment}${newLine}`, span: { start: 0, length: 0 } };
+  }
+  const start = shebang[0].length;
+  return {
+    newText: shebang[1]
+      ? `${comment}${newLine}`
+      : `${newLine}${comment}${newLine}`,
+    span: { start, length: 0 }
+  };
+}
+
+/**
+ * Compute the text change that removes the unused rules of the directive
+ * comment starting at the given position, or the whole directive if all its
+ * rules are unused or if `unusedRules` is undefined. Lines that only contain
+ * the directive are removed as well.
+ */
+export function getRemoveDirectiveTextChange(
+  file: ts_module.SourceFile,
+  commentStart: number,
+  unusedRules?: readonly string[]
+): ts_module.TextChange | undefined {
+  const text = file.text;
+  const directive = parseDirective(text, commentStart);
+  if (!directive) {
+    return undefined;
+  }
+
+  if (unusedRules && directive.rules.length > 0) {
+    const keptRules = directive.rules.filter(
+      (x) => unusedRules.indexOf(x.name) === -1
+    );
+    if (keptRules.length === directive.rules.length) {
+      return undefined;
+    }
+    if (keptRules.length > 0) {
+      const start = directive.rules[0].start;
+      return {
+        newText: keptRules.map((x) => x.name).join(", "),
+        span: { start, length: directive.rulesEnd - start }
+      };
+    }
+  }
+
+  const lineStart = text.lastIndexOf("\n", directive.start - 1) + 1;
+  const lineEnd = getLineEnd(text, directive.end);
+  const before = text.slice(lineStart, directive.start);
+  const after = text.slice(directive.end, lineEnd);
+  let start = directive.start;
+  let end = directive.end;
+  if (after.trim() === "") {
+    if (before.trim() === "") {
+      start = lineStart;
+      end = /^\r?\n/.test(text.slice(lineEnd))
+        ? text.indexOf("\n", lineEnd) + 1
+        : lineEnd;
+    } else {
+      // keep the code in front of a trailing comment
+      start = lineStart + before.replace(/\s+$/, "").length;
+      end = lineEnd;
+    }
+  } else {
+    end += (/^[ \t]*/.exec(after) || [""])[0].length;
+  }
+  return { newText: "", span: { start, length: end - start } };
+}
+
+/**
+ * Get the range of the directive comment starting at the given position
+ */
+export function getDirectiveRange(
+  file: ts_module.SourceFile,
+  commentStart: number
+): { start: number, end: number } | undefined {
+  const directive = parseDirective(file.text, commentStart);
+  return directive && { start: directive.start, end: directive.end };
+}
+
+/**
+ * Check whether a lint message reports an unused disable directive, and get
+ * the unused rule. The rule is undefined for directives without rules.
+ */
+export function parseUnusedDirectiveProblem(problem: {
+  ruleId: string | null;
+  message: string;
+}): { ruleId?: string } | undefined {
+  if (problem.ruleId !== null) {
+    return undefined;
+  }
+  const match = /^Unused eslint-disable directive \(no problems were reported(?: from '([^']+)')?\)/.exec(
+    problem.message
+  );
+  return match ? { ruleId: match[1] } : undefined;
+}
+
+function formatDirective(
+  name: DirectiveName,
+  ruleId: string,
+  description: string | undefined
+): string {
+  return description
+    ? `${name} ${ruleId} -- ${description}`
+    : `${name} ${ruleId}`;
+}
+
+function addRuleToDirective(
+  directive: DirectiveComment,
+  ruleId: string
+): ts_module.TextChange | undefined {
+  // a directive without rules already disables all of them
+  if (
+    directive.rules.length === 0 ||
+    directive.rules.some((x) => x.name === ruleId)
+  ) {
+    return undefined;
+  }
+  return {
+    newText: `, ${ruleId}`,
+    span: { start: directive.rulesEnd, length: 0 }
+  };
+}
+
+/**
+ * Find the directive comments on a single line
+ */
+function findLineDirectives(
+  text: string,
+  lineStart: number,
+  lineEnd: number
+): DirectiveComment[] {
+  const lineText = text.slice(lineStart, lineEnd);
+  const directives: DirectiveComment[] = [];
+  lineDirectivePattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = lineDirectivePattern.exec(lineText))) {
+    const directive = parseDirective(text, lineStart + match.index);
+    // block comments spanning several lines are not line directives
+    if (directive && directive.end <= lineEnd) {
+      directives.push(directive);
+    }
+  }
+  return directives;
+}
+
+/**
+ * Parse the directive comment starting with `//` or `/*` at the given position
+ */
+function parseDirective(
+  text: string,
+  commentStart: number
+): DirectiveComment | undefined {
+  let bodyEnd: number;
+  let end: number;
+  switch (text.substr(commentStart, 2)) {
+    case "//":
+      bodyEnd = end = getLineEnd(text, commentStart);
+      break;
+    case "/*":
+      bodyEnd = text.indexOf("*/", commentStart + 2);
+      if (bodyEnd === -1) {
+        return undefined;
+      }
+      end = bodyEnd + 2;
+      break;
+    default:
+      return undefined;
+  }
+
+  const bodyStart = commentStart + 2;
+  const match = /^\s*(eslint-disable(?:-next-line|-line)?)(?![\w-])/.exec(
+    text.slice(bodyStart, bodyEnd)
+  );
+  if (!match) {
+    return undefined;
+  }
+  const ruleListStart = bodyStart + match[0].length;
+  let ruleList = text.slice(ruleListStart, bodyEnd);
+  // eslint separates an optional description with two or more dashes
+  const descriptionStart = ruleList.search(/\s-{2,}\s/);
+  if (descriptionStart !== -1) {
+    ruleList = ruleList.slice(0, descriptionStart);
+  }
+  ruleList = ruleList.replace(/\s+$/, "");
+
+  const rules: Array<{ name: string, start: number, end: number }> = [];
+  const rulePattern = /[^\s,]+/g;
+  let rule: RegExpExecArray | null;
+  while ((rule = rulePattern.exec(ruleList))) {
+    const start = ruleListStart + rule.index;
+    rules.push({ name: rule[0], start, end: start + rule[0].length });
+  }
+
+  let start = commentStart;
+  const lineStart = text.lastIndexOf("\n", commentStart - 1) + 1;
+  const jsxStart = /\{[ \t]*$/.exec(text.slice(lineStart, commentStart));
+  const jsxEnd = /^[ \t]*\}/.exec(text.slice(end, getLineEnd(text, end)));
+  if (jsxStart && jsxEnd) {
+    start -= jsxStart[0].length;
+    end += jsxEnd[0].length;
+  }
+
+  return {
+    name: match[1] as DirectiveName,
+    start,
+    end,
+    rules,
+    rulesEnd: ruleListStart + ruleList.length
+  };
+}
+
+function getLineEnd(text: string, position: number): number {
+  const match = /\r?\n/.exec(text.slice(position));
+  return match ? position + match.index : text.length;
+}
+
+/**
+ * Check whether a comment can be inserted at a position, and which kind of
+ * comment is needed there.
+ */
+function getInsertionContext(
+  ts: typeof ts_module,
+  file: ts_module.SourceFile,
+  position: number
+): "code" | "jsx" | "unsupported" {
+  const token = findTokenAtPosition(ts, file, position);
+  // whitespace between JSX children is JSX text as well
+  if (token.kind === ts.SyntaxKind.JsxText) {
+    return "jsx";
+  }
+  if (position > token.getStart(file)) {
+    // within a token spanning several lines, like a template literal
+    return "unsupported";
+  }
+  const text = file.text;
+  const comments = [
+    ...(ts.getTrailingCommentRanges(text, token.getFullStart()) || []),
+    ...(ts.getLeadingCommentRanges(text, token.getFullStart()) || [])
+  ];
+  if (comments.some((x) => x.pos < position && position < x.end)) {
+    return "unsupported";
+  }
+  return "code";
+}
+
+function getTrailingLineComment(
+  ts: typeof ts_module,
+  file: ts_module.SourceFile,
+  lineStart: number,
+  lineEnd: number
+): ts_module.CommentRange | undefined {
+  const token = findTokenAtPosition(ts, file, lineEnd);
+  const comments =
+    ts.getTrailingCommentRanges(file.text, token.getFullStart()) || [];
+  return comments.find(
+    (x) =>
+      x.kind === ts.SyntaxKind.SingleLineCommentTrivia &&
+      x.pos >= lineStart &&
+      x.end === lineEnd
+  );
+}
+
+/**
+ * Find the token whose text or leading trivia contains the position
+ */
+function findTokenAtPosition(
+  ts: typeof ts_module,
+  file: ts_module.SourceFile,
+  position: number
+): ts_module.Node {
+  let current: ts_module.Node = file;
+  for (;;) {
+    const child: ts_module.Node | undefined = current
+      .getChildren(file)
+      .find(
+        (x) =>
+          (x.getFullStart() <= position && position < x.getEnd()) ||
+          (x.kind === ts.SyntaxKind.EndOfFileToken && position === x.getEnd())
+      );
+    if (!child) {
+      return current;
+    }
+    current = child;
+  }
+}
+
+function getNewLine(file: ts_module.SourceFile): string {
+  return file.text.indexOf("\r\n") !== -1 ? "\r\n" : "\n";
+}
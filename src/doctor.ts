@@ -0,0 +1,176 @@
+import * as ts_module from 'typescript/lib/tsserverlibrary';
+
+import { pluginId } from './config';
+import { EsLintDiagnosis } from './runner';
+
+/**
+ * Starts checking how eslint is set up for a file. Responds with the id of
+ * the check, the result is reported with an event.
+ */
+export const doctorCommand = `${pluginId}.doctor`;
+export const doctorResultEvent = `${pluginId}.doctorResult`;
+
+export interface DoctorRequestArguments {
+  readonly file: string;
+}
+
+export interface DoctorResponse {
+  readonly checkId: number;
+  readonly projectFileName: string;
+}
+
+export interface DoctorResultEventBody {
+  readonly checkId: number;
+  readonly projectFileName: string;
+  /**
+   * Undefined if the check failed
+   */
+  readonly diagnosis?: EsLintDiagnosis;
+  /**
+   * The diagnosis as written to the log
+   */
+  readonly report: string;
+}
+
+/**
+ * A project whose files can be checked by the doctor command
+ */
+export interface DiagnosableProject {
+  readonly projectFileName: string;
+  isClosed(): boolean;
+  containsFile(fileName: string): boolean;
+  diagnose(fileName: string): Promise<EsLintDiagnosis>;
+}
+
+/**
+ * Handles the doctor command of a tsserver session for all projects the
+ * plugin was created for.
+ */
+export class DoctorCommand {
+  private readonly session: Pick<
+    ts_module.server.Session,
+    "addProtocolHandler" | "event"
+  >;
+  private readonly logError: (message: string) => void;
+  private readonly projects: DiagnosableProject[] = [];
+  private lastCheckId = 0;
+
+  public constructor(
+    session: Pick<ts_module.server.Session, "addProtocolHandler" | "event">,
+    logError: (message: string) => void
+  ) {
+    this.session = session;
+    this.logError = logError;
+    session.addProtocolHandler(doctorCommand, (request) =>
+      this.startCheck(request.arguments || {})
+    );
+  }
+
+  public addProject(project: DiagnosableProject): void {
+    this.projects.push(project);
+  }
+
+  public removeProject(project: DiagnosableProject): void {
+    const index = this.projects.indexOf(project);
+    if (index >= 0) {
+      this.projects.splice(index, 1);
+    }
+  }
+
+  private startCheck(
+    args: Partial<DoctorRequestArguments>
+  ): ts_module.server.HandlerResponse {
+    if (!args.file) {
+      throw new Error("Specify the file to check with 'file'");
+    }
+    const file = args.file;
+    const project = this.projects.find(
+      (x) => !x.isClosed() && x.containsFile(file)
+    );
+    if (!project) {
+      throw new Error(`No project found for '${file}'`);
+    }
+    const checkId = ++this.lastCheckId;
+    this.check(checkId, project, file).catch((e) => {
+      const report = `Could not check ${file}: ${
+        e && e.message ? e.message : `${e}`
+      }`;
+      this.logError(report);
+      const result: DoctorResultEventBody = {
+        checkId,
+        projectFileName: project.projectFileName,
+        report
+      };
+      this.session.event(result, doctorResultEvent);
+    });
+
+    const response: DoctorResponse = {
+      checkId,
+      projectFileName: project.projectFileName
+    };
+    return { response, responseRequired: true };
+  }
+
+  private async check(
+    checkId: number,
+    project: DiagnosableProject,
+    fileName: string
+  ): Promise<void> {
+    const diagnosis = await project.diagnose(fileName);
+    const result: DoctorResultEventBody = {
+      checkId,
+      projectFileName: project.projectFileName,
+      diagnosis,
+      report: formatDiagnosis(diagnosis)
+    };
+    this.session.event(result, doctorResultEvent);
+  }
+}
+
+/**
+ * Format a diagnosis as a multi-line report for the log
+ */
+export function formatDiagnosis(diagnosis: EsLintDiagnosis): string {
+  const { resolution, eslint } = diagnosis;
+  let resolvedFrom: string = resolution.resolvedFrom;
+  if (resolution.globalPackageManager) {
+    resolvedFrom += ` (${resolution.globalPackageManager})`;
+  }
+  const lines = [
+    `ESLint doctor report for ${diagnosis.filePath}`,
+    `  Workspace folder: ${diagnosis.workspaceFolderPath || "none"}`,
+    `  Package root: ${diagnosis.packageRoot}`,
+    `  ESLint path: ${resolution.eslintPath || "not found"}`,
+    `  Resolved from: ${resolvedFrom}`,
+    `  ESLint version: ${
+      eslint
+        ? `${eslint.version} (${eslint.api} API, ${eslint.configType} config)`
+        : "not loaded"
+    }`,
+    `  Config files: ${diagnosis.configFilePaths.join(", ") || "none"}`
+  ];
+  if (eslint) {
+    lines.push(
+      `  Configuration for the file: ${
+        diagnosis.hasConfiguration ? "found" : "none"
+      }`,
+      `  Parser: ${diagnosis.parser || "default"}`,
+      `  Plugins: ${diagnosis.plugins.join(", ") || "none"}`,
+      `  Ignored by eslint: ${
+        diagnosis.ignored ? `yes, by ${diagnosis.ignored}` : "no"
+      }`
+    );
+  }
+  lines.push(
+    `  Excluded by the plugin settings: ${
+      diagnosis.excluded ? `yes, ${diagnosis.excluded}` : "no"
+    }`
+  );
+  if (diagnosis.warnings.length > 0) {
+    lines.push("  Warnings:");
+    lines.push(...diagnosis.warnings.map((x) => `    ${x}`));
+  } else {
+    lines.push("  Warnings: none");
+  }
+  return lines.join("\n");
+}
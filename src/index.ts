@@ -1,45 +1,87 @@
 import * as mockRequire from 'mock-require'
 import * as ts_module from 'typescript/lib/tsserverlibrary'
 
+import { DoctorCommand } from './doctor';
+import { LintStatistics } from './lintStatistics';
 import { Logger } from './logger'
 import { ESLintPlugin } from './plugin'
+import { ProjectLintCommands } from './projectLint';
 import { ConfigurationManager } from './settings'
 
 export = function init({ typescript }: { typescript: typeof ts_module }) {
   const configManager = new ConfigurationManager(typescript);
   let logger: Logger | undefined;
+  // the commands are registered once for the session shared by all projects
+  let projectLintCommands: ProjectLintCommands | undefined;
+  let doctorCommand: DoctorCommand | undefined;
+  const statistics = new LintStatistics((entry) => {
+    if (logger) {
+      logger.log(entry);
+    }
+  });
 
   // Make sure TS Lint imports the correct version of TS
   mockRequire("typescript", typescript);
 
   return {
     create(info: ts.server.PluginCreateInfo) {
-      logger = Logger.forPlugin(info);
+      logger = Logger.forPlugin(typescript, info);
       logger.info("Create");
 
       configManager.setProject(info.project, logger);
       configManager.updateFromPluginConfig(info.config);
 
       if (!isValidTypeScriptVersion(typescript)) {
-        logger.info(
+        logger.error(
           "Invalid typescript version detected. The ESLint plugin requires TypeScript 3.x"
         );
         return info.languageService;
       }
 
-      return new ESLintPlugin(
+      const plugin = new ESLintPlugin(
         typescript,
         info.languageServiceHost,
         logger,
         info.project,
-        configManager
-      ).decorate(info.languageService);
+        configManager,
+        statistics
+      );
+
+      // the session is only passed to plugins by newer TypeScript versions
+      const session = (info as { session?: ts_module.server.Session }).session;
+      if (session) {
+        if (!projectLintCommands) {
+          projectLintCommands = new ProjectLintCommands(session);
+          statistics.registerCommand(session);
+        }
+        if (!doctorCommand) {
+          doctorCommand = new DoctorCommand(session, (message) => {
+            if (logger) {
+              logger.error(message);
+            }
+          });
+        }
+        const commands = projectLintCommands;
+        const doctor = doctorCommand;
+        commands.addLinter(plugin);
+        doctor.addProject(plugin);
+        plugin.onDispose(() => {
+          commands.removeLinter(plugin);
+          doctor.removeProject(plugin);
+        });
+      } else {
+        logger.warn(
+          "The project lint, doctor and statistics commands require a TypeScript version that passes the session to plugins"
+        );
+      }
+
+      return plugin.decorate(info.languageService);
     },
     onConfigurationChanged(config: any) {
       if (logger) {
         logger.info("onConfigurationChanged");
       }
-      configManager.updateFromPluginConfig(config);
+      configManager.updateFromEditorConfig(config);
     },
   };
 };
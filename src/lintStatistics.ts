@@ -0,0 +1,227 @@
+import * as ts_module from 'typescript/lib/tsserverlibrary';
+
+import { pluginId } from './config';
+import { LintTimings } from './runner';
+import { LogEntry } from './runner/log';
+
+/**
+ * Responds with the timing statistics of all lints since the start of the
+ * session or the last reset.
+ */
+export const getLintStatisticsCommand = `${pluginId}.getLintStatistics`;
+
+export interface LintStatisticsRequestArguments {
+  /**
+   * Start collecting new statistics after responding
+   */
+  readonly reset?: boolean;
+}
+
+export interface TimingSummary {
+  readonly count: number;
+  readonly totalMs: number;
+  readonly meanMs: number;
+  readonly maxMs: number;
+  /**
+   * Mean of the most recent samples
+   */
+  readonly recentMeanMs: number;
+}
+
+export interface RuleTimingSummary extends TimingSummary {
+  readonly ruleId: string;
+}
+
+export interface FileTiming {
+  readonly fileName: string;
+  readonly lintMs: number;
+}
+
+export interface LintStatisticsResponse {
+  /**
+   * ISO time from which on lints are counted
+   */
+  readonly since: string;
+  readonly resolve: TimingSummary;
+  readonly config: TimingSummary;
+  readonly lint: TimingSummary;
+  /**
+   * The rules that took the most time first
+   */
+  readonly rules: RuleTimingSummary[];
+  /**
+   * The files that took the longest to lint first
+   */
+  readonly slowestFiles: FileTiming[];
+}
+
+// number of samples the recent mean is computed of
+const recentSampleCount = 50;
+const slowestFileCount = 10;
+const defaultSummaryIntervalMs = 5 * 60 * 1000;
+
+class TimingStatistics {
+  private count = 0;
+  private totalMs = 0;
+  private maxMs = 0;
+  private readonly recent: number[] = [];
+
+  public record(ms: number): void {
+    ++this.count;
+    this.totalMs += ms;
+    this.maxMs = Math.max(this.maxMs, ms);
+    this.recent.push(ms);
+    if (this.recent.length > recentSampleCount) {
+      this.recent.shift();
+    }
+  }
+
+  public summarize(): TimingSummary {
+    return {
+      count: this.count,
+      totalMs: round(this.totalMs),
+      meanMs: round(this.count > 0 ? this.totalMs / this.count : 0),
+      maxMs: round(this.maxMs),
+      recentMeanMs: round(
+        this.recent.length > 0
+          ? this.recent.reduce((a, b) => a + b, 0) / this.recent.length
+          : 0
+      )
+    };
+  }
+}
+
+/**
+ * Rolling timing statistics of the lints of all projects, logged
+ * periodically and reported by the statistics command.
+ */
+export class LintStatistics {
+  private since = new Date();
+  private resolve = new TimingStatistics();
+  private config = new TimingStatistics();
+  private lint = new TimingStatistics();
+  private rules = new Map<string, TimingStatistics>();
+  private slowestFiles: FileTiming[] = [];
+  // lints recorded since the last logged summary
+  private unloggedCount = 0;
+  private timer?: NodeJS.Timer;
+  private readonly log: (entry: LogEntry) => void;
+  private readonly summaryIntervalMs: number;
+
+  public constructor(
+    log: (entry: LogEntry) => void,
+    summaryIntervalMs = defaultSummaryIntervalMs
+  ) {
+    this.log = log;
+    this.summaryIntervalMs = summaryIntervalMs;
+  }
+
+  public registerCommand(
+    session: Pick<ts_module.server.Session, "addProtocolHandler">
+  ): void {
+    session.addProtocolHandler(getLintStatisticsCommand, (request) => {
+      const args: LintStatisticsRequestArguments = request.arguments || {};
+      const response = this.getStatistics();
+      if (args.reset) {
+        this.reset();
+      }
+      return { response, responseRequired: true };
+    });
+  }
+
+  public record(fileName: string, timings: LintTimings): void {
+    this.resolve.record(timings.resolveMs);
+    this.config.record(timings.configMs);
+    this.lint.record(timings.lintMs);
+    const ruleTimes = timings.ruleTimes || {};
+    for (const ruleId of Object.keys(ruleTimes)) {
+      let rule = this.rules.get(ruleId);
+      if (!rule) {
+        rule = new TimingStatistics();
+        this.rules.set(ruleId, rule);
+      }
+      rule.record(ruleTimes[ruleId]);
+    }
+    this.recordFile(fileName, timings.lintMs);
+
+    ++this.unloggedCount;
+    this.startSummaryTimer();
+  }
+
+  public getStatistics(): LintStatisticsResponse {
+    return {
+      since: this.since.toISOString(),
+      resolve: this.resolve.summarize(),
+      config: this.config.summarize(),
+      lint: this.lint.summarize(),
+      rules: Array.from(this.rules.entries())
+        .map(([ruleId, statistics]) => ({
+          ruleId,
+          ...statistics.summarize()
+        }))
+        .sort(
+          (a, b) => b.totalMs - a.totalMs || a.ruleId.localeCompare(b.ruleId)
+        ),
+      slowestFiles: this.slowestFiles.slice()
+    };
+  }
+
+  public reset(): void {
+    this.since = new Date();
+    this.resolve = new TimingStatistics();
+    this.config = new TimingStatistics();
+    this.lint = new TimingStatistics();
+    this.rules = new Map();
+    this.slowestFiles = [];
+    this.unloggedCount = 0;
+  }
+
+  /**
+   * Log a summary of the statistics if files were linted since the last one
+   */
+  public logSummary(): void {
+    if (this.unloggedCount === 0) {
+      return;
+    }
+    const statistics = this.getStatistics();
+    this.log({
+      level: "info",
+      message: `Lint statistics: ${this.unloggedCount} files linted since the last summary`,
+      fields: {
+        lints: statistics.lint.count,
+        meanLintMs: statistics.lint.meanMs,
+        recentMeanLintMs: statistics.lint.recentMeanMs,
+        maxLintMs: statistics.lint.maxMs,
+        meanConfigMs: statistics.config.meanMs,
+        slowestRules: statistics.rules
+          .slice(0, 5)
+          .map((x) => `${x.ruleId} (${x.totalMs}ms)`)
+          .join(", "),
+        slowestFile: statistics.slowestFiles.length
+          ? statistics.slowestFiles[0].fileName
+          : undefined
+      }
+    });
+    this.unloggedCount = 0;
+  }
+
+  private recordFile(fileName: string, lintMs: number): void {
+    const files = this.slowestFiles.filter((x) => x.fileName !== fileName);
+    files.push({ fileName, lintMs: round(lintMs) });
+    files.sort((a, b) => b.lintMs - a.lintMs);
+    this.slowestFiles = files.slice(0, slowestFileCount);
+  }
+
+  private startSummaryTimer(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.logSummary(), this.summaryIntervalMs);
+    // the summary must not keep the server alive
+    this.timer.unref();
+  }
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 100) / 100;
+}
@@ -1,17 +1,124 @@
+import * as fs from 'fs';
 import * as ts_module from 'typescript/lib/tsserverlibrary';
 
 import { pluginId } from './config';
+import { isLogLevelEnabled, LogEntry, LogFields } from './runner/log';
+
+export interface LoggerSettings {
+    readonly traceLevel?: string;
+    /**
+     * File that log entries are appended to as JSON lines, in addition to
+     * the tsserver log
+     */
+    readonly logFile?: string;
+}
 
 export class Logger {
-    public static forPlugin(info: ts_module.server.PluginCreateInfo) {
-        return new Logger(info.project.projectService.logger);
+    public static forPlugin(ts: typeof ts_module, info: ts_module.server.PluginCreateInfo) {
+        return new Logger(ts, info.project.projectService.logger);
     }
 
+    private _settings: LoggerSettings = {};
+    // the log file that could not be written, reported once
+    private _failedLogFile?: string;
+    // lines waiting for the running append to the log file
+    private readonly _pendingLines: Array<{ logFile: string, line: string }> = [];
+    private _appending?: Promise<void>;
+    private readonly ts: typeof ts_module;
+
     private constructor(
+        ts: typeof ts_module,
         private readonly _logger: ts_module.server.Logger
-    ) { }
+    ) {
+        this.ts = ts;
+    }
+
+    public configure(settings: LoggerSettings) {
+        this._settings = settings;
+    }
+
+    public error(message: string, fields?: LogFields) {
+        this.log({ level: "error", message, fields });
+    }
+
+    public warn(message: string, fields?: LogFields) {
+        this.log({ level: "warn", message, fields });
+    }
+
+    public info(message: string, fields?: LogFields) {
+        this.log({ level: "info", message, fields });
+    }
+
+    public verbose(message: string, fields?: LogFields) {
+        this.log({ level: "verbose", message, fields });
+    }
+
+    public log(entry: LogEntry) {
+        if (!isLogLevelEnabled(this._settings.traceLevel, entry.level)) {
+            return;
+        }
+        if (this._logger.loggingEnabled()) {
+            const fields = entry.fields ? ` ${JSON.stringify(entry.fields)}` : '';
+            this._logger.msg(
+                `[${pluginId}] [${entry.level}] ${entry.message}${fields}`,
+                entry.level === 'error' ? this.ts.server.Msg.Err : this.ts.server.Msg.Info
+            );
+        }
+        this.appendToLogFile(entry);
+    }
 
-    public info(message: string) {
-        this._logger.info(`[${pluginId}] ${JSON.stringify(message)}`);
+    /**
+     * Resolves when the entries logged so far are written to the log file
+     */
+    public flush(): Promise<void> {
+        return this._appending || Promise.resolve();
     }
-}
\ No newline at end of file
+
+    private appendToLogFile(entry: LogEntry) {
+        const logFile = this._settings.logFile;
+        if (!logFile || logFile === this._failedLogFile) {
+            return;
+        }
+        const line = JSON.stringify({
+            time: new Date().toISOString(),
+            level: entry.level,
+            message: entry.message,
+            ...entry.fields
+        });
+        // appending synchronously would block tsserver on every entry
+        this._pendingLines.push({ logFile, line });
+        if (!this._appending) {
+            this._appending = this.appendPendingLines();
+        }
+    }
+
+    private async appendPendingLines() {
+        while (this._pendingLines.length > 0) {
+            const logFile = this._pendingLines[0].logFile;
+            let count = 1;
+            while (count < this._pendingLines.length && this._pendingLines[count].logFile === logFile) {
+                count++;
+            }
+            const lines = this._pendingLines.splice(0, count);
+            if (logFile === this._failedLogFile) {
+                continue;
+            }
+            try {
+                await appendFile(logFile, lines.map(({ line }) => line + '\n').join(''));
+            } catch (e) {
+                this._failedLogFile = logFile;
+                this._logger.msg(
+                    `[${pluginId}] [error] Could not write the log file ${logFile}: ${e.message}`,
+                    this.ts.server.Msg.Err
+                );
+            }
+        }
+        this._appending = undefined;
+    }
+}
+
+function appendFile(file: string, data: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        fs.appendFile(file, data, (err) => err ? reject(err) : resolve());
+    });
+}
@@ -3,14 +3,48 @@ import * as path from 'path'
 import * as ts_module from 'typescript/lib/tsserverlibrary'
 
 import { ESLINT_ERROR_CODE, ESLINT_ERROR_SOURCE } from './config'
+import { getRuleConfigTextChange, RuleConfigEdit } from './configEdits';
 import { ConfigFileWatcher } from './configFileWatcher'
+import { getRuleDiagnosticTag } from './diagnosticTags';
+import { DiagnosableProject, formatDiagnosis } from './doctor';
+import {
+  DisableRuleScope,
+  getDirectiveRange,
+  getDisableRuleTextChange,
+  getRemoveDirectiveTextChange,
+  parseUnusedDirectiveProblem
+} from './directives';
+import { LintStatistics } from './lintStatistics';
 import { Logger } from './logger'
-import { EsLintRunner, RunResult, toPackageManager } from './runner'
+import { ProjectLinter } from './projectLint';
+import {
+  CancellationToken,
+  EsLintDiagnosis,
+  EsLintRunner,
+  FixAllOptions,
+  LintCancelledError,
+  RunConfiguration,
+  RunResult,
+  toPackageManager
+} from './runner';
+import {
+  findEslintrcConfigFile,
+  findFlatConfigFile,
+  isFlatConfigFile
+} from './runner/configFiles';
+import { RuleMetadata } from './runner/engine';
 import {
   filterProblemsForFile,
   getNonOverlappingReplacements
 } from './runner/failures'
-import { ConfigurationManager } from './settings'
+import { MruCache } from './runner/mruCache';
+import { EsLintRunnerPool } from './runner/pool';
+import {
+  Configuration,
+  ConfigurationManager,
+  getConfigurationDiagnostics,
+  getRuleSeverityOverride
+} from './settings';
 
 const isEsLintLanguageServiceMarker = Symbol(
   "__isEsLintLanguageServiceMarker__"
@@ -19,6 +53,36 @@ const isEsLintLanguageServiceMarker = Symbol(
 interface Problem {
   failure: eslint.Linter.LintMessage;
   fixable: boolean;
+  /**
+   * The `meta` of the rule that reported the problem
+   */
+  ruleMeta?: RuleMetadata;
+}
+
+/**
+ * Kinds of fixes eslint distinguishes by the `meta.type` of rules
+ */
+type FixType = "problem" | "suggestion" | "layout";
+
+const fixTypes: FixType[] = ["problem", "suggestion", "layout"];
+
+// longest time tsserver waits for eslint to fix all problems of a file
+const fixAllTimeoutMs = 5000;
+
+// name of the refactor that fixes all problems of a file or selection
+const fixAllRefactorName = "eslint:fix-all";
+
+// code action kinds of the fix all refactor, editors run the ones of files on save
+const fixAllRefactorKinds = {
+  file: "source.fixAll.eslint",
+  selection: "refactor.rewrite.eslint.fixAll"
+};
+
+/**
+ * The `kind` of refactor actions is only declared by newer TypeScript versions
+ */
+interface FixAllRefactorActionInfo extends ts_module.RefactorActionInfo {
+  readonly kind: string;
 }
 
 class EsLintFixId {
@@ -34,8 +98,15 @@ class EsLintFixId {
   }
 }
 
+// fix id of the fix all action for unused eslint-disable directives
+const removeUnusedDirectivesFixId = "eslint:remove-unused-disable-directives";
+// fix id of the fix all action that fixes the file like `eslint --fix`
+const fixAllAutoFixableFixId = "eslint:fix-all-auto-fixable";
+
 class ProblemMap {
   private readonly _map = new Map<string, Problem>();
+  // serialized fix all options -> replacements computed on request
+  private readonly _fixAllReplacements = new Map<string, eslint.Rule.Fix[]>();
 
   public get(start: number, end: number) {
     return this._map.get(this.key(start, end));
@@ -49,39 +120,191 @@ class ProblemMap {
     return this._map.values();
   }
 
+  public getFixAllReplacements(
+    options: FixAllOptions
+  ): eslint.Rule.Fix[] | undefined {
+    return this._fixAllReplacements.get(JSON.stringify(options));
+  }
+
+  public setFixAllReplacements(
+    options: FixAllOptions,
+    replacements: eslint.Rule.Fix[]
+  ): void {
+    this._fixAllReplacements.set(JSON.stringify(options), replacements);
+  }
+
   // key to identify a rule failure
   private key(start: number, end: number): string {
     return `[${start},${end}]`;
   }
 }
 
-export class ESLintPlugin {
+interface CompletedLint {
+  /**
+   * Script version of the linted file
+   */
+  readonly version: string;
+  /**
+   * The run configuration used for linting, serialized
+   */
+  readonly configFingerprint: string;
+  readonly result: RunResult;
+  /**
+   * Diagnostics of the result, computed once they are requested for the linted version
+   */
+  diagnostics?: ComputedDiagnostics;
+}
+
+/**
+ * A file that took longer than `maxLintDurationMs` to lint
+ */
+interface SlowLint {
+  readonly lintMs: number;
+  /**
+   * The rules that took the most time with their durations
+   */
+  readonly slowestRules: string[];
+  /**
+   * Type aware rules turned off for the file by `skipTypeAwareRulesWhenSlow`
+   */
+  readonly skippedRules?: string[];
+}
+
+interface ComputedDiagnostics {
+  readonly file: ts_module.SourceFile;
+  readonly warnings: ts_module.Diagnostic[];
+  readonly problems: ts_module.Diagnostic[];
+  readonly codeFixActions: ProblemMap;
+}
+
+export class ESLintPlugin implements ProjectLinter, DiagnosableProject {
   private readonly codeFixActions = new Map<string, ProblemMap>();
+  private readonly completedLints = new MruCache<CompletedLint>(100);
+  private readonly slowLints = new MruCache<SlowLint>(100);
+  // file name -> version and configuration currently being linted
+  private readonly pendingLints = new Map<string, string>();
   private readonly configFileWatcher: ConfigFileWatcher;
-  private readonly runner: EsLintRunner;
+  private readonly runnerPool: EsLintRunnerPool;
+  private runner?: EsLintRunner;
+  private lintGeneration = 0;
+  // set when shareProgram is on but the parser cannot use the program
+  private parserCannotShareProgram = false;
+  private readonly disposeListeners = new Set<() => void>();
+  private readonly stopListeningToConfig: () => void;
+  private readonly statistics: LintStatistics;
 
   public constructor(
     private readonly ts: typeof ts_module,
     private readonly languageServiceHost: ts_module.LanguageServiceHost,
     private readonly logger: Logger,
     private readonly project: ts_module.server.Project,
-    private readonly configurationManager: ConfigurationManager
+    private readonly configurationManager: ConfigurationManager,
+    statistics: LintStatistics
   ) {
+    this.statistics = statistics;
     this.logger.info("loaded");
 
-    this.runner = new EsLintRunner((message) => {
-      this.logger.info(message);
+    this.runnerPool = new EsLintRunnerPool((entry) => {
+      this.logger.log(entry);
     });
 
-    this.configFileWatcher = new ConfigFileWatcher(ts, () => {
-      this.logger.info("ESlint file changed");
+    this.configFileWatcher = new ConfigFileWatcher(ts, (fileName) => {
+      this.logger.info(`ESLint config file changed`, { file: fileName });
+      // the dependencies may have changed, load eslint and its plugins again
+      if (path.basename(fileName) === "package.json") {
+        this.runnerPool.restartWorkers();
+        this.runner = undefined;
+        this.parserCannotShareProgram = false;
+      } else {
+        this.runnerPool.clearCaches();
+        if (this.runner) {
+          this.runner.clearCaches();
+        }
+      }
+      this.invalidateLintResults();
       this.project.refreshDiagnostics();
     });
 
-    this.configurationManager.onUpdatedConfig(() => {
-      this.logger.info("TSConfig configuration changed");
-      project.refreshDiagnostics();
-    });
+    // the configuration manager only configures the logger of the last project
+    this.logger.configure(configurationManager.config);
+    this.stopListeningToConfig = this.configurationManager.onUpdatedConfig(
+      () => {
+        this.logger.configure(configurationManager.config);
+        this.logger.info("TSConfig configuration changed");
+        this.invalidateLintResults();
+        project.refreshDiagnostics();
+      }
+    );
+  }
+
+  public get projectFileName(): string {
+    return this.project.getProjectName();
+  }
+
+  public isClosed(): boolean {
+    return this.project.isClosed();
+  }
+
+  public containsFile(fileName: string): boolean {
+    return this.project.containsFile(this.ts.server.toNormalizedPath(fileName));
+  }
+
+  public getProjectFiles(): string[] {
+    return this.project
+      .getRootFiles()
+      .filter(
+        (x) => !(this.getConfig(x).ignoreDefinitionFiles && x.endsWith(".d.ts"))
+      );
+  }
+
+  /**
+   * Lint a file of the project the same way as the files that are open
+   */
+  public async lintFile(
+    fileName: string
+  ): Promise<eslint.Linter.LintMessage[]> {
+    const text = this.getScriptText(fileName);
+    if (typeof text !== "string") {
+      throw new Error(`Could not read ${fileName}`);
+    }
+    const result = await this.runLint(
+      fileName,
+      text,
+      this.getFileRunConfiguration(fileName)
+    );
+    if (result.timings) {
+      this.statistics.record(fileName, result.timings);
+    }
+    return filterProblemsForFile(fileName, result.lintResult);
+  }
+
+  /**
+   * Check how eslint is set up for a file on the runner pool and log the
+   * result. Includes the warnings of the last lint of the file.
+   */
+  public async diagnose(fileName: string): Promise<EsLintDiagnosis> {
+    const diagnosis = await this.runnerPool.diagnose(
+      fileName,
+      this.getFileRunConfiguration(fileName)
+    );
+    const completed = this.completedLints.get(fileName);
+    const lintWarnings = (completed && completed.result.warnings) || [];
+    const result = {
+      ...diagnosis,
+      warnings: [
+        ...diagnosis.warnings,
+        ...lintWarnings.filter((x) => diagnosis.warnings.indexOf(x) < 0)
+      ]
+    };
+    this.logger.info(formatDiagnosis(result), { file: fileName });
+    return result;
+  }
+
+  /**
+   * Listen to the project being closed
+   */
+  public onDispose(listener: () => void): void {
+    this.disposeListeners.add(listener);
   }
 
   public decorate(languageService: ts.LanguageService) {
@@ -122,11 +345,50 @@ export class ESLintPlugin {
       return this.getCombinedCodeFix(oldGetCombinedCodeFix, ...args);
     };
 
+    const oldGetApplicableRefactors = languageService.getApplicableRefactors.bind(
+      languageService
+    );
+    intercept.getApplicableRefactors = (...args) => {
+      return this.getApplicableRefactors(oldGetApplicableRefactors, ...args);
+    };
+
+    const oldGetEditsForRefactor = languageService.getEditsForRefactor.bind(
+      languageService
+    );
+    intercept.getEditsForRefactor = (...args) => {
+      return this.getEditsForRefactor(oldGetEditsForRefactor, ...args);
+    };
+
+    const oldGetQuickInfoAtPosition = languageService.getQuickInfoAtPosition.bind(
+      languageService
+    );
+    intercept.getQuickInfoAtPosition = (...args) => {
+      return this.getQuickInfoAtPosition(oldGetQuickInfoAtPosition, ...args);
+    };
+
+    const oldGetCompilerOptionsDiagnostics = languageService.getCompilerOptionsDiagnostics.bind(
+      languageService
+    );
+    intercept.getCompilerOptionsDiagnostics = () => {
+      return [
+        ...oldGetCompilerOptionsDiagnostics(),
+        ...this.getConfigurationDiagnostics()
+      ];
+    };
+
+    // tsserver disposes the language service when it closes the project
+    const oldDispose = languageService.dispose.bind(languageService);
+    intercept.dispose = () => {
+      this.dispose();
+      oldDispose();
+    };
+
     return new Proxy(languageService, {
       get: (
-        target: any,
-        property: keyof ts.LanguageService &
-          typeof isEsLintLanguageServiceMarker
+        target: ts.LanguageService,
+        property:
+          | keyof ts.LanguageService
+          | typeof isEsLintLanguageServiceMarker
       ) => {
         if (property === isEsLintLanguageServiceMarker) {
           return true;
@@ -136,101 +398,426 @@ export class ESLintPlugin {
     });
   }
 
+  private dispose(): void {
+    this.logger.info("Project closed");
+    this.stopListeningToConfig();
+    this.invalidateLintResults();
+    this.configFileWatcher.dispose();
+    this.runnerPool.dispose();
+    this.runner = undefined;
+    for (const listener of this.disposeListeners) {
+      listener();
+    }
+    this.disposeListeners.clear();
+  }
+
   private getSemanticDiagnostics(
     delegate: (fileName: string) => ts_module.Diagnostic[],
     fileName: string
   ): ts_module.Diagnostic[] {
     const diagnostics = delegate(fileName);
 
-    const config = this.configurationManager.config;
+    const config = this.getConfig(fileName);
     if (diagnostics.length > 0 && config.suppressWhileTypeErrorsPresent) {
       return diagnostics;
     }
 
     try {
-      this.logger.info(
-        `Computing eslint semantic diagnostics for '${fileName}'`
-      );
-
-      if (this.codeFixActions.has(fileName)) {
+      if (config.ignoreDefinitionFiles && fileName.endsWith(".d.ts")) {
         this.codeFixActions.delete(fileName);
+        return diagnostics;
       }
 
-      if (config.ignoreDefinitionFiles && fileName.endsWith(".d.ts")) {
+      this.throwIfCancellationRequested();
+      const version = this.languageServiceHost.getScriptVersion(fileName);
+      const configuration = this.getFileRunConfiguration(fileName);
+      const configFingerprint = JSON.stringify(configuration);
+      this.requestLint(fileName, version, configuration, configFingerprint);
+      this.throwIfCancellationRequested();
+
+      // Serve the last completed results, fresh ones trigger a refresh once they arrive
+      const completed = this.completedLints.get(fileName);
+      if (!completed) {
+        this.codeFixActions.delete(fileName);
         return diagnostics;
       }
 
-      let result: RunResult;
-      try {
-        // protect against eslint crashes
-        result = this.runner.runEsLint(fileName, this.getProgram(), {
-          configFile: config.configFile,
-          ignoreDefinitionFiles: config.ignoreDefinitionFiles,
-          jsEnable: config.jsEnable,
-          exclude: config.exclude
-            ? Array.isArray(config.exclude)
-              ? config.exclude
-              : [config.exclude]
-            : [],
-          packageManager: toPackageManager(config.packageManager),
-        });
-        if (result.configFilePath) {
-          this.configFileWatcher.ensureWatching(result.configFilePath);
+      const file = this.getProgram().getSourceFile(fileName)!;
+      const isUpToDate =
+        completed.version === version &&
+        completed.configFingerprint === configFingerprint;
+      let computed = completed.diagnostics;
+      if (!isUpToDate || !computed || computed.file !== file) {
+        this.throwIfCancellationRequested();
+        computed = this.computeDiagnostics(completed.result, file);
+        if (isUpToDate) {
+          completed.diagnostics = computed;
         }
-      } catch (err) {
-        let errorMessage = `unknown error`;
-        if (typeof err.message === "string" || err.message instanceof String) {
-          errorMessage = err.message as string;
+      }
+
+      // Fixes computed for older contents would corrupt the current text
+      if (isUpToDate) {
+        this.codeFixActions.set(fileName, computed.codeFixActions);
+      } else {
+        this.codeFixActions.delete(fileName);
+      }
+      diagnostics.unshift(...computed.warnings);
+      diagnostics.push(...computed.problems);
+    } catch (e) {
+      if (e instanceof this.ts.OperationCanceledException) {
+        throw e;
+      }
+      this.logger.error(`eslint-language service error: ${e.toString()}`, {
+        file: fileName,
+        stack: e.stack
+      });
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Convert a lint result to diagnostics and record the code actions of its problems
+   */
+  private computeDiagnostics(
+    result: RunResult,
+    file: ts_module.SourceFile
+  ): ComputedDiagnostics {
+    this.logger.verbose(`Computing eslint semantic diagnostics`, {
+      file: file.fileName
+    });
+
+    const warnings: ts_module.Diagnostic[] = [];
+    if (result.warnings) {
+      if (result.configFilePaths && result.configFilePaths.length > 0) {
+        // If we have a config file, the user likely wanted to lint. The fact that linting has a
+        // warning should be reported to them.
+        for (const warning of result.warnings) {
+          warnings.push({
+            file,
+            start: 0,
+            length: 1,
+            category: this.ts.DiagnosticCategory.Warning,
+            source: ESLINT_ERROR_SOURCE,
+            code: ESLINT_ERROR_CODE,
+            messageText: warning
+          });
         }
-        this.logger.info("eslint error " + errorMessage);
-        return diagnostics;
+      } else {
+        // If we have not found a config file, then we don't want to annoy users by generating warnings
+        // about eslint not being installed or misconfigured. In many cases, the user is opening a
+        // file/project that was not intended to be linted.
+        for (const warning of result.warnings) {
+          this.logger.warn(`[eslint] ${warning}`, { file: file.fileName });
+        }
+      }
+    }
+
+    const slowLint = this.slowLints.get(file.fileName);
+    if (slowLint) {
+      warnings.push({
+        file,
+        start: 0,
+        length: 1,
+        category: this.ts.DiagnosticCategory.Message,
+        source: ESLINT_ERROR_SOURCE,
+        code: ESLINT_ERROR_CODE,
+        messageText: this.getSlowLintMessage(file.fileName, slowLint)
+      });
+    }
+
+    const problems: ts_module.Diagnostic[] = [];
+    const codeFixActions = new ProblemMap();
+    const config = this.getConfig(file.fileName);
+    for (const problem of filterProblemsForFile(
+      file.fileName,
+      result.lintResult
+    )) {
+      const severity = getRuleSeverityOverride(
+        config.ruleSeverityOverrides,
+        problem.ruleId
+      );
+      if (severity === "off") {
+        continue;
       }
+      problems.push(
+        this.makeDiagnostic(problem, file, result.rulesMeta, config)
+      );
+      this.recordCodeAction(problem, file, codeFixActions, result.rulesMeta);
+    }
+    return { file, warnings, problems, codeFixActions };
+  }
+
+  /**
+   * Lint the given version of a file on the runner pool unless it has already
+   * been linted or is being linted with the same configuration.
+   */
+  private requestLint(
+    fileName: string,
+    version: string,
+    configuration: RunConfiguration,
+    configFingerprint: string
+  ): void {
+    const completed = this.completedLints.get(fileName);
+    const lintKey = `${version}:${configFingerprint}`;
+    if (
+      (completed &&
+        completed.version === version &&
+        completed.configFingerprint === configFingerprint) ||
+      this.pendingLints.get(fileName) === lintKey
+    ) {
+      return;
+    }
 
-      const program = this.getProgram();
-      const file = program.getSourceFile(fileName)!;
-      if (result.warnings) {
-        const defaultTsconfigJsonPath = path.join(
-          program.getCurrentDirectory(),
-          "eslint.json"
+    const text = this.getScriptText(fileName);
+    if (typeof text !== "string") {
+      return;
+    }
+
+    const generation = this.lintGeneration;
+    this.pendingLints.set(fileName, lintKey);
+    // superseded by a newer lint of the file or by changed settings
+    const cancellationToken: CancellationToken = {
+      isCancellationRequested: () =>
+        generation !== this.lintGeneration ||
+        this.pendingLints.get(fileName) !== lintKey
+    };
+    this.runLint(fileName, text, configuration, cancellationToken).then(
+      (result) => {
+        if (result.timings) {
+          this.statistics.record(fileName, result.timings);
+        }
+        if (cancellationToken.isCancellationRequested()) {
+          return;
+        }
+        this.pendingLints.delete(fileName);
+        this.recordSlowLint(fileName, result);
+        this.completedLints.set(fileName, {
+          version,
+          configFingerprint,
+          result
+        });
+        this.configFileWatcher.setCascade(
+          fileName,
+          result.configFilePaths || [],
+          result.configDirectories || []
         );
+        this.project.refreshDiagnostics();
+      },
+      (err: Error) => {
+        if (this.pendingLints.get(fileName) === lintKey) {
+          this.pendingLints.delete(fileName);
+        }
+        // the pool rejects running lints when the project is closed
         if (
-          (result.configFilePath &&
-            this.ts.sys.fileExists(result.configFilePath)) ||
-          this.ts.sys.fileExists(defaultTsconfigJsonPath)
+          err instanceof LintCancelledError ||
+          cancellationToken.isCancellationRequested()
         ) {
-          // If we have a config file, the user likely wanted to lint. The fact that linting has a
-          // warning should be reported to them.
-          for (const warning of result.warnings) {
-            diagnostics.unshift({
-              file,
-              start: 0,
-              length: 1,
-              category: this.ts.DiagnosticCategory.Warning,
-              source: ESLINT_ERROR_SOURCE,
-              code: ESLINT_ERROR_CODE,
-              messageText: warning,
-            });
-          }
-        } else {
-          // If we have not found a config file, then we don't want to annoy users by generating warnings
-          // about eslint not being installed or misconfigured. In many cases, the user is opening a
-          // file/project that was not intended to be linted.
-          for (const warning of result.warnings) {
-            this.logger.info(`[eslint] ${warning}`);
-          }
+          this.logger.verbose("Discarded a superseded lint", {
+            file: fileName
+          });
+          return;
         }
+        this.logger.error("eslint error " + err.message, { file: fileName });
       }
-      const eslintProblems = filterProblemsForFile(fileName, result.lintResult);
-      for (const problem of eslintProblems) {
-        diagnostics.push(this.makeDiagnostic(problem, file));
-        this.recordCodeAction(problem, file);
+    );
+  }
+
+  /**
+   * Lint on a worker, or on the tsserver thread when the program of the
+   * language service should be shared with the parser. Programs cannot be
+   * passed to workers.
+   */
+  private async runLint(
+    fileName: string,
+    text: string,
+    configuration: RunConfiguration,
+    cancellationToken?: CancellationToken
+  ): Promise<RunResult> {
+    if (
+      !this.configurationManager.config.shareProgram ||
+      this.parserCannotShareProgram
+    ) {
+      return this.runnerPool.runEsLint(
+        fileName,
+        text,
+        configuration,
+        cancellationToken
+      );
+    }
+    const result = await this.getRunner().runEsLint(
+      fileName,
+      this.getProgram(),
+      configuration,
+      cancellationToken
+    );
+    // linting on the tsserver thread only pays off when the parser uses the program
+    if (result.programShared === false) {
+      this.parserCannotShareProgram = true;
+      this.logger.warn(
+        "shareProgram: @typescript-eslint/parser does not support parserOptions.programs, linting on workers instead",
+        { file: fileName }
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Remember the files that took longer than `maxLintDurationMs` to lint. A
+   * file keeps skipping type aware rules until the lint results are
+   * invalidated.
+   */
+  private recordSlowLint(fileName: string, result: RunResult): void {
+    const config = this.getConfig(fileName);
+    const timings = result.timings;
+    if (!timings || config.maxLintDurationMs === undefined) {
+      return;
+    }
+    const slowLint = this.slowLints.get(fileName);
+    if (timings.lintMs <= config.maxLintDurationMs) {
+      if (slowLint && !slowLint.skippedRules) {
+        this.slowLints.delete(fileName);
       }
-    } catch (e) {
-      this.logger.info(`eslint-language service error: ${e.toString()}`);
-      this.logger.info(`Stack trace: ${e.stack}`);
+      return;
     }
 
-    return diagnostics;
+    const ruleTimes = timings.ruleTimes || {};
+    const slowestRules = Object.keys(ruleTimes)
+      .sort((a, b) => ruleTimes[b] - ruleTimes[a])
+      .slice(0, 3)
+      .map((ruleId) => `${ruleId} (${Math.round(ruleTimes[ruleId])}ms)`);
+    let skippedRules = slowLint && slowLint.skippedRules;
+    if (
+      !skippedRules &&
+      config.skipTypeAwareRulesWhenSlow &&
+      result.typeAwareRules &&
+      result.typeAwareRules.length > 0
+    ) {
+      skippedRules = result.typeAwareRules;
+    }
+    this.logger.info(`Linting took longer than maxLintDurationMs`, {
+      file: fileName,
+      durationMs: timings.lintMs,
+      slowestRules: slowestRules.join(", ")
+    });
+    this.slowLints.set(fileName, {
+      lintMs: timings.lintMs,
+      slowestRules,
+      skippedRules
+    });
+  }
+
+  private getSlowLintMessage(fileName: string, slowLint: SlowLint): string {
+    const config = this.getConfig(fileName);
+    let message = `Linting this file took ${Math.round(
+      slowLint.lintMs
+    )}ms, longer than maxLintDurationMs (${config.maxLintDurationMs}ms).`;
+    if (slowLint.slowestRules.length > 0) {
+      message += ` Slowest rules: ${slowLint.slowestRules.join(", ")}.`;
+    }
+    if (slowLint.skippedRules) {
+      message += ` Rules that require type information are skipped for this file: ${slowLint.skippedRules.join(
+        ", "
+      )}.`;
+    }
+    return message;
+  }
+
+  private throwIfCancellationRequested(): void {
+    const cancellationToken =
+      this.languageServiceHost.getCancellationToken &&
+      this.languageServiceHost.getCancellationToken();
+    if (cancellationToken && cancellationToken.isCancellationRequested()) {
+      throw new this.ts.OperationCanceledException();
+    }
+  }
+
+  private getRunner(): EsLintRunner {
+    if (!this.runner) {
+      this.runner = new EsLintRunner((entry) => {
+        this.logger.log(entry);
+      });
+    }
+    return this.runner;
+  }
+
+  /**
+   * Get the run configuration of a file, without the rules skipped because
+   * linting the file was slow
+   */
+  private getFileRunConfiguration(fileName: string): RunConfiguration {
+    const slowLint = this.slowLints.get(fileName);
+    return {
+      ...this.getRunConfiguration(fileName),
+      disabledRules: slowLint && slowLint.skippedRules
+    };
+  }
+
+  private getRunConfiguration(fileName: string): RunConfiguration {
+    const config = this.getConfig(fileName);
+    return {
+      configFile: config.configFile,
+      ignoreDefinitionFiles: config.ignoreDefinitionFiles,
+      jsEnable: config.jsEnable,
+      exclude: config.exclude
+        ? Array.isArray(config.exclude)
+          ? config.exclude
+          : [config.exclude]
+        : [],
+      packageManager: toPackageManager(config.packageManager),
+      useEslintrc: config.useEslintrc,
+      allowInlineConfig: config.allowInlineConfig,
+      reportUnusedDisableDirectives: config.reportUnusedDisableDirectives,
+      nodePath: config.nodePath,
+      validateWithDefaultConfig: config.validateWithDefaultConfig,
+      traceLevel: config.traceLevel,
+      workspaceFolderPath:
+        config.workspaceFolderPath || this.getProgram().getCurrentDirectory(),
+      rulePaths: config.rulePaths,
+      resolvePluginsRelativeTo: config.resolvePluginsRelativeTo,
+      extensions: config.extensions,
+      ignorePath: config.ignorePath,
+      projectConfigFile: this.getProjectConfigFile(),
+      maxLintDurationMs: config.maxLintDurationMs
+    };
+  }
+
+  private getProjectConfigFile(): string | undefined {
+    return this.project instanceof this.ts.server.ConfiguredProject
+      ? this.project.getConfigFilePath()
+      : undefined;
+  }
+
+  private invalidateLintResults(): void {
+    ++this.lintGeneration;
+    this.completedLints.clear();
+    this.slowLints.clear();
+    this.pendingLints.clear();
+  }
+
+  private getScriptText(fileName: string): string | undefined {
+    const snapshot = this.languageServiceHost.getScriptSnapshot(fileName);
+    return snapshot ? snapshot.getText(0, snapshot.getLength()) : undefined;
+  }
+
+  /**
+   * Report mistakes in the plugin settings on the plugin entry of the project config file
+   */
+  private getConfigurationDiagnostics(): ts_module.Diagnostic[] {
+    const configFile = this.getProjectConfigFile();
+    if (!configFile) {
+      return [];
+    }
+    try {
+      return getConfigurationDiagnostics(
+        this.ts,
+        configFile,
+        this.configurationManager.problems
+      );
+    } catch (e) {
+      this.logger.warn(`Could not report invalid settings: ${e.message}`);
+      return [];
+    }
   }
 
   private getCodeFixesAtPosition(
@@ -247,18 +834,33 @@ export class ESLintPlugin {
     );
 
     if (
-      this.configurationManager.config.suppressWhileTypeErrorsPresent &&
+      this.getConfig(fileName).suppressWhileTypeErrorsPresent &&
       fixes.length > 0
     ) {
       return fixes;
     }
 
-    this.logger.info(`getCodeFixes ${errorCodes[0]}`);
-    this.logger.info(JSON.stringify(fixes));
+    this.logger.verbose(`getCodeFixes ${errorCodes[0]}`, { file: fileName });
 
     const documentFixes = this.codeFixActions.get(fileName);
     if (documentFixes) {
       const problem = documentFixes.get(start, end);
+      if (problem && parseUnusedDirectiveProblem(problem.failure)) {
+        const removeDirective = this.getRemoveUnusedDirectiveQuickFix(
+          problem.failure,
+          fileName
+        );
+        if (removeDirective) {
+          if (
+            this.getRemoveAllUnusedDirectivesChanges(documentFixes, fileName)
+          ) {
+            removeDirective.fixId = removeUnusedDirectivesFixId;
+            removeDirective.fixAllDescription =
+              "Remove all unused eslint-disable directives";
+          }
+          fixes.push(removeDirective);
+        }
+      }
       if (problem && problem.failure.ruleId) {
         if (problem.fixable) {
           const fix = problem.failure.fix;
@@ -269,12 +871,12 @@ export class ESLintPlugin {
             );
             fixes.push(codeFixAction);
 
-            const fixAll = this.getRuleFailureFixAllQuickFix(
-              problem.failure.ruleId,
-              documentFixes,
-              fileName
-            );
-            if (fixAll) {
+            if (
+              this.hasSeveralFixableProblems(
+                problem.failure.ruleId,
+                documentFixes
+              )
+            ) {
               codeFixAction.fixId = EsLintFixId.fromFailure(problem.failure);
               codeFixAction.fixAllDescription = `Fix all '${problem.failure.ruleId}'`;
             }
@@ -285,13 +887,17 @@ export class ESLintPlugin {
           }
         }
 
+        // suggestions may change the meaning of the code, they are never part of a fix all
+        fixes.push(...this.getSuggestionQuickFixes(problem.failure, fileName));
+
         fixes.push(
-          this.getDisableRuleQuickFix(
+          ...this.getDisableRuleQuickFixes(
             problem.failure,
             fileName,
             this.getProgram().getSourceFile(fileName)!
           )
         );
+        fixes.push(...this.getRuleConfigQuickFixes(problem.failure, fileName));
       }
     }
 
@@ -305,43 +911,235 @@ export class ESLintPlugin {
     formatOptions: ts_module.FormatCodeSettings,
     preferences: ts_module.UserPreferences
   ): ts_module.CombinedCodeActions {
+    if (fixId === removeUnusedDirectivesFixId) {
+      const problems = this.codeFixActions.get(scope.fileName);
+      const changes =
+        problems &&
+        this.getRemoveAllUnusedDirectivesChanges(problems, scope.fileName);
+      return { changes: changes ? [changes] : [] };
+    }
+
+    if (fixId === fixAllAutoFixableFixId) {
+      const problems = this.codeFixActions.get(scope.fileName);
+      return {
+        changes: problems
+          ? [this.getFixAllChanges(problems, scope.fileName, {})]
+          : []
+      };
+    }
+
     const ruleName = EsLintFixId.toRuleName(fixId);
     if (!ruleName) {
       return delegate(scope, fixId, formatOptions, preferences);
     }
 
     const documentFixes = this.codeFixActions.get(scope.fileName);
-    if (documentFixes) {
-      const fixAll = this.getRuleFailureFixAllQuickFix(
-        ruleName,
-        documentFixes,
-        scope.fileName
+    if (!documentFixes) {
+      return { changes: [] };
+    }
+    return {
+      changes: [
+        this.getFixAllChanges(documentFixes, scope.fileName, {
+          ruleId: ruleName
+        })
+      ]
+    };
+  }
+
+  /**
+   * Offer to fix all problems of the file or of the selection, in total or
+   * restricted to one fix type.
+   */
+  private getApplicableRefactors(
+    delegate: ts.LanguageService["getApplicableRefactors"],
+    fileName: string,
+    positionOrRange: number | ts_module.TextRange,
+    preferences: ts_module.UserPreferences | undefined
+  ): ts_module.ApplicableRefactorInfo[] {
+    const refactors = delegate(fileName, positionOrRange, preferences);
+
+    const selection = getSelection(positionOrRange);
+    const actions: FixAllRefactorActionInfo[] = [];
+    for (const scope of selection
+      ? (["selection", "file"] as const)
+      : (["file"] as const)) {
+      const problems = this.getFixableProblems(
+        fileName,
+        scope === "selection" ? selection : undefined
       );
-      if (fixAll) {
-        return {
-          changes: fixAll.changes,
-          commands: fixAll.commands,
-        };
+      if (problems.length === 0) {
+        continue;
+      }
+      actions.push({
+        name: scope,
+        description: `Fix all ESLint problems in ${scope}`,
+        kind: fixAllRefactorKinds[scope]
+      });
+      for (const fixType of fixTypes) {
+        if (problems.some((x) => getRuleType(x) === fixType)) {
+          actions.push({
+            name: `${scope}:${fixType}`,
+            description: `Fix all ESLint problems of type '${fixType}' in ${scope}`,
+            kind: `${fixAllRefactorKinds[scope]}.${fixType}`
+          });
+        }
       }
     }
 
-    return { changes: [] };
+    if (actions.length === 0) {
+      return refactors;
+    }
+    return [
+      ...refactors,
+      {
+        name: fixAllRefactorName,
+        description: "Fix all ESLint problems",
+        actions
+      }
+    ];
+  }
+
+  private getEditsForRefactor(
+    delegate: ts.LanguageService["getEditsForRefactor"],
+    fileName: string,
+    formatOptions: ts_module.FormatCodeSettings,
+    positionOrRange: number | ts_module.TextRange,
+    refactorName: string,
+    actionName: string,
+    preferences: ts_module.UserPreferences | undefined
+  ): ts_module.RefactorEditInfo | undefined {
+    if (refactorName !== fixAllRefactorName) {
+      return delegate(
+        fileName,
+        formatOptions,
+        positionOrRange,
+        refactorName,
+        actionName,
+        preferences
+      );
+    }
+
+    const [scope, fixType] = actionName.split(":");
+    const documentFixes = this.codeFixActions.get(fileName);
+    if (!documentFixes) {
+      return { edits: [] };
+    }
+    const selection =
+      scope === "selection" ? getSelection(positionOrRange) : undefined;
+    const file = this.getProgram().getSourceFile(fileName);
+    return {
+      edits: [
+        this.getFixAllChanges(documentFixes, fileName, {
+          fixTypes: fixType ? [fixType as FixType] : undefined,
+          lines: selection && file ? getLines(file, selection) : undefined
+        })
+      ]
+    };
+  }
+
+  /**
+   * Add the documentation of the rules that reported a problem at the
+   * position to the quick info of TypeScript.
+   */
+  private getQuickInfoAtPosition(
+    delegate: ts.LanguageService["getQuickInfoAtPosition"],
+    fileName: string,
+    position: number
+  ): ts_module.QuickInfo | undefined {
+    const quickInfo = delegate(fileName, position);
+
+    const documentFixes = this.codeFixActions.get(fileName);
+    const file = this.getProgram().getSourceFile(fileName);
+    if (!documentFixes || !file) {
+      return quickInfo;
+    }
+    const documentation: ts_module.SymbolDisplayPart[] = [];
+    const documentedRules = new Set<string>();
+    let problemSpan: ts_module.TextSpan | undefined;
+    for (const problem of documentFixes.values()) {
+      const ruleId = problem.failure.ruleId;
+      if (!ruleId || documentedRules.has(ruleId)) {
+        continue;
+      }
+      const { start, end, length } = this.getTextSpan(file, problem.failure);
+      if (position < start || position > end) {
+        continue;
+      }
+      documentedRules.add(ruleId);
+      problemSpan = problemSpan || { start, length };
+      documentation.push({
+        kind: "text",
+        text:
+          (documentation.length > 0 ? "\n\n" : "") +
+          getRuleDocumentation(ruleId, problem.ruleMeta)
+      });
+    }
+    if (documentation.length === 0 || !problemSpan) {
+      return quickInfo;
+    }
+
+    if (!quickInfo) {
+      return {
+        kind: this.ts.ScriptElementKind.unknown,
+        kindModifiers: "",
+        textSpan: problemSpan,
+        displayParts: [],
+        documentation
+      };
+    }
+    const existing = quickInfo.documentation || [];
+    return {
+      ...quickInfo,
+      documentation: [
+        ...existing,
+        ...(existing.length > 0 ? [{ kind: "text", text: "\n\n" }] : []),
+        ...documentation
+      ]
+    };
+  }
+
+  /**
+   * Get the auto-fixable problems of the current contents of a file,
+   * optionally only those overlapping a range.
+   */
+  private getFixableProblems(
+    fileName: string,
+    range: ts_module.TextRange | undefined
+  ): Problem[] {
+    const documentFixes = this.codeFixActions.get(fileName);
+    if (!documentFixes) {
+      return [];
+    }
+    const file = this.getProgram().getSourceFile(fileName);
+    return Array.from(documentFixes.values()).filter((problem) => {
+      if (!problem.fixable) {
+        return false;
+      }
+      if (!range || !file) {
+        return true;
+      }
+      const { start, end } = this.getTextSpan(file, problem.failure);
+      return start <= range.end && end >= range.pos;
+    });
   }
 
   private recordCodeAction(
     failure: eslint.Linter.LintMessage,
-    file: ts.SourceFile
+    file: ts.SourceFile,
+    documentAutoFixes: ProblemMap,
+    rulesMeta: RunResult["rulesMeta"]
   ) {
     // eslint can return a fix with an empty replacements array, these fixes are ignored
     const fixable = !!(failure.fix && !replacementsAreEmpty(failure.fix));
+    const meta =
+      rulesMeta && failure.ruleId ? rulesMeta[failure.ruleId] : undefined;
 
-    let documentAutoFixes = this.codeFixActions.get(file.fileName);
-    if (!documentAutoFixes) {
-      documentAutoFixes = new ProblemMap();
-      this.codeFixActions.set(file.fileName, documentAutoFixes);
-    }
     const { start, end } = this.getTextSpan(file, failure);
-    documentAutoFixes.set(start, end, { failure, fixable });
+    documentAutoFixes.set(start, end, {
+      failure,
+      fixable,
+      ruleMeta: meta
+    });
   }
 
   private getRuleFailureQuickFix(
@@ -355,94 +1153,353 @@ export class ESLintPlugin {
     };
   }
 
+  private getSuggestionQuickFixes(
+    failure: eslint.Linter.LintMessage,
+    fileName: string
+  ): ts_module.CodeFixAction[] {
+    return (failure.suggestions || []).map((suggestion) => ({
+      description: suggestion.desc,
+      fixName: `eslint:suggestion:${failure.ruleId}`,
+      changes: [
+        {
+          fileName,
+          textChanges: [convertFixToTextChange(suggestion.fix)]
+        }
+      ]
+    }));
+  }
+
   /**
-   * Generate a code action that fixes all instances of ruleName.
+   * Whether the rule reported several auto-fixable problems, fixing all of
+   * them is not worth an action if there is only one.
    */
-  private getRuleFailureFixAllQuickFix(
+  private hasSeveralFixableProblems(
     ruleName: string,
-    problems: ProblemMap,
+    problems: ProblemMap
+  ): boolean {
+    let count = 0;
+    for (const problem of problems.values()) {
+      if (problem.fixable && problem.failure.ruleId === ruleName) {
+        ++count;
+      }
+    }
+    return count >= 2;
+  }
+
+  private getRemoveUnusedDirectiveQuickFix(
+    failure: eslint.Linter.LintMessage,
     fileName: string
   ): ts_module.CodeFixAction | undefined {
-    const changes: ts_module.FileTextChanges[] = [];
+    const file = this.getProgram().getSourceFile(fileName);
+    const unusedDirective = parseUnusedDirectiveProblem(failure);
+    if (!file || !unusedDirective) {
+      return undefined;
+    }
+    const textChange = getRemoveDirectiveTextChange(
+      file,
+      this.getDirectivePosition(file, failure),
+      unusedDirective.ruleId ? [unusedDirective.ruleId] : undefined
+    );
+    if (!textChange) {
+      return undefined;
+    }
+    return {
+      description: unusedDirective.ruleId
+        ? `Remove unused '${unusedDirective.ruleId}' from eslint-disable directive`
+        : "Remove unused eslint-disable directive",
+      fixName: "eslint:remove-unused-disable-directive",
+      changes: [{ fileName, textChanges: [textChange] }]
+    };
+  }
 
+  /**
+   * Generate the changes that remove all unused directives of a file, undefined
+   * if there is only one.
+   */
+  private getRemoveAllUnusedDirectivesChanges(
+    problems: ProblemMap,
+    fileName: string
+  ): ts_module.FileTextChanges | undefined {
+    const file = this.getProgram().getSourceFile(fileName);
+    if (!file) {
+      return undefined;
+    }
+    // directive position -> unused rules, undefined if the whole directive is unused
+    const unusedRules = new Map<number, string[] | undefined>();
     for (const problem of problems.values()) {
-      if (problem.fixable) {
-        if (problem.failure.ruleId === ruleName) {
-          changes.push(failureToFileTextChange(problem.failure, fileName));
-        }
+      const unusedDirective = parseUnusedDirectiveProblem(problem.failure);
+      if (!unusedDirective) {
+        continue;
       }
+      const position = this.getDirectivePosition(file, problem.failure);
+      const rules = unusedRules.has(position)
+        ? unusedRules.get(position)
+        : [];
+      unusedRules.set(
+        position,
+        rules && unusedDirective.ruleId
+          ? [...rules, unusedDirective.ruleId]
+          : undefined
+      );
     }
-
-    // No need for this action if there's only one instance.
-    if (changes.length < 2) {
+    if (unusedRules.size < 2) {
       return undefined;
     }
 
-    return {
-      description: `Fix all '${ruleName}'`,
-      fixName: `eslint:fix-all:${ruleName}`,
-      changes,
-    };
+    const textChanges: ts_module.TextChange[] = [];
+    unusedRules.forEach((rules, position) => {
+      const textChange = getRemoveDirectiveTextChange(file, position, rules);
+      if (textChange) {
+        textChanges.push(textChange);
+      }
+    });
+    return { fileName, textChanges };
   }
 
-  private getDisableRuleQuickFix(
+  // eslint reports unused directives at the start of their comment
+  private getDirectivePosition(
+    file: ts_module.SourceFile,
+    failure: eslint.Linter.LintMessage
+  ): number {
+    return file.getPositionOfLineAndCharacter(
+      failure.line - 1,
+      failure.column - 1
+    );
+  }
+
+  /**
+   * Generate code actions that disable the rule of a failure with a directive
+   * comment for the next line, the same line or the entire file.
+   */
+  private getDisableRuleQuickFixes(
     failure: eslint.Linter.LintMessage,
     fileName: string,
     file: ts_module.SourceFile
-  ): ts_module.CodeFixAction {
-    const line = failure.line - 1;
-    const lineStarts = file.getLineStarts();
-    const lineStart = lineStarts[line];
-    let prefix = "";
-    const snapshot = this.languageServiceHost.getScriptSnapshot(fileName);
-    if (snapshot) {
-      const lineEnd =
-        line < lineStarts.length - 1 ? lineStarts[line + 1] : file.end;
-      const lineText = snapshot.getText(lineStart, lineEnd);
-      const leadingSpace = lineText.match(/^([ \t]+)/);
-      if (leadingSpace) {
-        prefix = leadingSpace[0];
+  ): ts_module.CodeFixAction[] {
+    const ruleId = failure.ruleId;
+    if (!ruleId) {
+      return [];
+    }
+    const variants: Array<{
+      scope: DisableRuleScope;
+      description: string;
+      fixName: string;
+    }> = [
+      {
+        scope: "next-line",
+        description: `Disable rule '${ruleId}'`,
+        fixName: `eslint:disable:${ruleId}`
+      },
+      {
+        scope: "line",
+        description: `Disable rule '${ruleId}' on the same line`,
+        fixName: `eslint:disable-line:${ruleId}`
+      },
+      {
+        scope: "file",
+        description: `Disable rule '${ruleId}' for the entire file`,
+        fixName: `eslint:disable-file:${ruleId}`
+      }
+    ];
+
+    const actions: ts_module.CodeFixAction[] = [];
+    for (const variant of variants) {
+      const textChange = getDisableRuleTextChange(
+        this.ts,
+        file,
+        ruleId,
+        failure.line - 1,
+        variant.scope,
+        this.getConfig(fileName).disableRuleCommentDescription
+      );
+      if (textChange) {
+        actions.push({
+          description: variant.description,
+          fixName: variant.fixName,
+          changes: [{ fileName, textChanges: [textChange] }]
+        });
       }
     }
+    return actions;
+  }
 
-    return {
-      description: `Disable rule '${failure.ruleId}'`,
-      fixName: `eslint:disable:${failure.ruleId}`,
-      changes: [
-        {
-          fileName,
-          textChanges: [
-            {
-              newText: `${prefix}// eslint-disable-next-line ${failure.ruleId}\n`,
-              span: { start: lineStart, length: 0 },
-            },
-          ],
+  /**
+   * Get quick fixes that turn off the rule of a problem or change it to a
+   * warning in the config file that applies to the file.
+   */
+  private getRuleConfigQuickFixes(
+    failure: eslint.Linter.LintMessage,
+    fileName: string
+  ): ts_module.CodeFixAction[] {
+    const ruleId = failure.ruleId;
+    const configFile = this.getRuleConfigFile(fileName);
+    if (!ruleId || !configFile) {
+      return [];
+    }
+    // tsserver needs a script info to convert the changes of a file, its
+    // text includes unsaved changes of an open config file
+    const scriptInfo = this.project.projectService.getOrCreateScriptInfoForNormalizedPath(
+      this.ts.server.toNormalizedPath(configFile),
+      false
+    );
+    if (!scriptInfo) {
+      return [];
+    }
+    const snapshot = scriptInfo.getSnapshot();
+    const text = snapshot.getText(0, snapshot.getLength());
+
+    const configName = path.basename(configFile);
+    const variants: Array<{
+      edit: RuleConfigEdit;
+      description: string;
+      fixName: string;
+    }> = [
+      {
+        edit: { ruleId, severity: "off" },
+        description: `Turn off rule '${ruleId}' in ${configName}`,
+        fixName: `eslint:config-off:${ruleId}`
+      }
+    ];
+    // override patterns can not reach outside of the config directory
+    const relativePath = path.relative(path.dirname(configFile), fileName);
+    if (!relativePath.startsWith("..") && !path.isAbsolute(relativePath)) {
+      variants.push({
+        edit: {
+          ruleId,
+          severity: "off",
+          files: [relativePath.replace(/\\/g, "/")]
         },
-      ],
-    };
+        description: `Turn off rule '${ruleId}' for this file in ${configName}`,
+        fixName: `eslint:config-off-file:${ruleId}`
+      });
+    }
+    if (failure.severity === 2) {
+      variants.push({
+        edit: { ruleId, severity: "warn" },
+        description: `Change rule '${ruleId}' to a warning in ${configName}`,
+        fixName: `eslint:config-warn:${ruleId}`
+      });
+    }
+
+    const actions: ts_module.CodeFixAction[] = [];
+    for (const variant of variants) {
+      const textChange = getRuleConfigTextChange(
+        this.ts,
+        configFile,
+        text,
+        variant.edit
+      );
+      if (textChange) {
+        actions.push({
+          description: variant.description,
+          fixName: variant.fixName,
+          changes: [{ fileName: configFile, textChanges: [textChange] }]
+        });
+      }
+    }
+    return actions;
+  }
+
+  /**
+   * The legacy config file with the rules of a file. Like in eslint, the
+   * configured `configFile` takes precedence over `.eslintrc.*` files.
+   */
+  private getRuleConfigFile(fileName: string): string | undefined {
+    const config = this.getConfig(fileName);
+    if (config.configFile) {
+      return isFlatConfigFile(config.configFile)
+        ? undefined
+        : config.configFile;
+    }
+    if (config.useEslintrc === false || findFlatConfigFile(fileName)) {
+      return undefined;
+    }
+    return findEslintrcConfigFile(fileName);
   }
 
+  /**
+   * Applies the fixes of a single pass, listing the quick fixes must not wait
+   * for eslint. Its fix all action fixes the file like `eslint --fix`.
+   */
   private getFixAllAutoFixableQuickFix(
     documentFixes: ProblemMap,
     fileName: string
   ): ts_module.CodeFixAction {
-    const allReplacements = getNonOverlappingReplacements(
-      Array.from(documentFixes.values())
-        .filter((x) => x.fixable)
-        .map((x) => x.failure)
-    );
     return {
       description: `Fix all auto-fixable eslint failures`,
       fixName: `eslint:fix-all`,
       changes: [
         {
           fileName,
-          textChanges: allReplacements.map(convertReplacementToTextChange),
-        },
+          textChanges: getSinglePassReplacements(documentFixes, {}).map(
+            convertReplacementToTextChange
+          )
+        }
       ],
+      fixId: fixAllAutoFixableFixId,
+      fixAllDescription: "Fix all auto-fixable eslint failures like eslint --fix"
+    };
+  }
+
+  /**
+   * The changes of `eslint --fix` for the problems the options select. They
+   * are computed when first requested and kept until the file is linted
+   * again. If eslint fails to fix the file in time, the non overlapping
+   * fixes of a single pass are applied instead.
+   */
+  private getFixAllChanges(
+    documentFixes: ProblemMap,
+    fileName: string,
+    options: FixAllOptions
+  ): ts_module.FileTextChanges {
+    let replacements = documentFixes.getFixAllReplacements(options);
+    if (!replacements) {
+      replacements =
+        this.computeFixAllReplacements(fileName, options) ||
+        getSinglePassReplacements(documentFixes, options);
+      documentFixes.setFixAllReplacements(options, replacements);
+    }
+    return {
+      fileName,
+      textChanges: replacements.map(convertReplacementToTextChange)
     };
   }
 
+  /**
+   * Let eslint fix the linted contents of the file on a worker, tsserver
+   * waits for the result at most `fixAllTimeoutMs`
+   */
+  private computeFixAllReplacements(
+    fileName: string,
+    options: FixAllOptions
+  ): eslint.Rule.Fix[] | undefined {
+    const text = this.getScriptText(fileName);
+    if (typeof text !== "string") {
+      return undefined;
+    }
+    try {
+      const result = this.runnerPool.runEsLintSync(
+        fileName,
+        text,
+        { ...this.getFileRunConfiguration(fileName), fixAll: options },
+        fixAllTimeoutMs
+      );
+      if (!result) {
+        this.logger.warn(
+          `Fixing all problems took longer than ${fixAllTimeoutMs}ms or all lint workers were busy, applying the fixes of a single pass`,
+          { file: fileName }
+        );
+        return undefined;
+      }
+      return result.fixAllReplacements || [];
+    } catch (e) {
+      this.logger.warn(`Could not fix all problems: ${e.message}`, {
+        file: fileName
+      });
+      return undefined;
+    }
+  }
+
   private getTextSpan(
     file: ts.SourceFile,
     lintMessage: eslint.Linter.LintMessage
@@ -485,6 +1542,15 @@ export class ESLintPlugin {
     let end =
       positionResolver(lintMessage.endLine, lintMessage.endColumn) ?? start;
 
+    // unused directives are reported without an end, mark the whole comment
+    if (parseUnusedDirectiveProblem(lintMessage)) {
+      const range = getDirectiveRange(file, start);
+      if (range) {
+        start = range.start;
+        end = range.end;
+      }
+    }
+
     return {
       start,
       length: end - start,
@@ -492,22 +1558,39 @@ export class ESLintPlugin {
     };
   }
 
+  /**
+   * Get the settings of a file, including the ones of matching overrides
+   */
+  private getConfig(fileName: string): Configuration {
+    return this.configurationManager.getConfigForFile(fileName);
+  }
+
   private getProgram() {
     return this.project.getLanguageService().getProgram()!;
   }
 
   private makeDiagnostic(
     failure: eslint.Linter.LintMessage,
-    file: ts.SourceFile
+    file: ts.SourceFile,
+    rulesMeta: RunResult["rulesMeta"],
+    config: Configuration
   ): ts.Diagnostic {
-    const message =
+    let message =
       failure.ruleId !== null
         ? `${failure.message} (${failure.ruleId})`
         : `${failure.message}`;
+    const meta =
+      rulesMeta && failure.ruleId ? rulesMeta[failure.ruleId] : undefined;
+    if (config.appendRuleDocsUrl && meta && meta.docs && meta.docs.url) {
+      message += ` ${meta.docs.url}`;
+    }
 
-    const category = this.getDiagnosticCategory(failure);
+    const category = this.getDiagnosticCategory(failure, config);
     const { start, length } = this.getTextSpan(file, failure);
-    return {
+    const tag = parseUnusedDirectiveProblem(failure)
+      ? "unnecessary"
+      : getRuleDiagnosticTag(config.ruleDiagnosticTags, failure.ruleId);
+    const diagnostic: ts.Diagnostic & { reportsDeprecated?: {} } = {
       file,
       start,
       length,
@@ -515,16 +1598,32 @@ export class ESLintPlugin {
       category,
       source: ESLINT_ERROR_SOURCE,
       code: ESLINT_ERROR_CODE,
+      reportsUnnecessary: tag === "unnecessary" ? {} : undefined,
+      // only passed on to editors by TypeScript 4.0 and later
+      reportsDeprecated: tag === "deprecated" ? {} : undefined
     };
+    return diagnostic;
   }
 
   private getDiagnosticCategory(
-    failure: eslint.Linter.LintMessage
+    failure: eslint.Linter.LintMessage,
+    config: Configuration
   ): ts.DiagnosticCategory {
+    switch (
+      getRuleSeverityOverride(config.ruleSeverityOverrides, failure.ruleId)
+    ) {
+      case "error":
+        return this.ts.DiagnosticCategory.Error;
+      case "warning":
+        return this.ts.DiagnosticCategory.Warning;
+      case "suggestion":
+        return this.ts.DiagnosticCategory.Suggestion;
+      case "message":
+        return this.ts.DiagnosticCategory.Message;
+    }
     if (
-      this.configurationManager.config.alwaysShowRuleFailuresAsWarnings ||
-      typeof this.configurationManager.config
-        .alwaysShowRuleFailuresAsWarnings === "undefined"
+      config.alwaysShowRuleFailuresAsWarnings ||
+      typeof config.alwaysShowRuleFailuresAsWarnings === "undefined"
     ) {
       return this.ts.DiagnosticCategory.Warning;
     }
@@ -566,6 +1665,103 @@ function failureToFileTextChange(
   };
 }
 
+function getRuleType(problem: Problem): FixType | undefined {
+  return problem.ruleMeta && problem.ruleMeta.type;
+}
+
+/**
+ * Describe a rule with its metadata, formatted as markdown
+ */
+function getRuleDocumentation(
+  ruleId: string,
+  meta: RuleMetadata | undefined
+): string {
+  const docs = (meta && meta.docs) || {};
+  const lines = [
+    docs.description
+      ? `**${ruleId}** (eslint): ${docs.description}`
+      : `**${ruleId}** (eslint)`
+  ];
+  if (meta) {
+    const details: string[] = [];
+    if (docs.category) {
+      details.push(`Category: ${docs.category}`);
+    }
+    if (meta.fixable) {
+      details.push(`Fixable: ${meta.fixable}`);
+    }
+    if (meta.hasSuggestions) {
+      details.push("Has suggestions");
+    }
+    if (meta.deprecated) {
+      details.push("Deprecated");
+    }
+    if (details.length > 0) {
+      lines.push(details.join(" | "));
+    }
+  }
+  if (docs.url) {
+    lines.push(`[Documentation](${docs.url})`);
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * The fixes of the selected problems that do not overlap, like the first pass
+ * of `eslint --fix`
+ */
+function getSinglePassReplacements(
+  documentFixes: ProblemMap,
+  options: FixAllOptions
+): eslint.Rule.Fix[] {
+  return getNonOverlappingReplacements(
+    Array.from(documentFixes.values())
+      .filter((x) => x.fixable && isSelectedForFixAll(x, options))
+      .map((x) => x.failure)
+  );
+}
+
+/**
+ * Whether a fix all with the options fixes the problem
+ */
+function isSelectedForFixAll(
+  problem: Problem,
+  options: FixAllOptions
+): boolean {
+  const { ruleId, fixTypes, lines } = options;
+  const { failure } = problem;
+  return (
+    (!ruleId || failure.ruleId === ruleId) &&
+    (!fixTypes || fixTypes.some((x) => x === getRuleType(problem))) &&
+    (!lines || (failure.line >= lines.start && failure.line <= lines.end))
+  );
+}
+
+/**
+ * The 1-based lines a range of the file spans
+ */
+function getLines(
+  file: ts_module.SourceFile,
+  range: ts_module.TextRange
+): { start: number, end: number } {
+  return {
+    start: file.getLineAndCharacterOfPosition(range.pos).line + 1,
+    end: file.getLineAndCharacterOfPosition(range.end).line + 1
+  };
+}
+
+/**
+ * Get the selected range, undefined if nothing is selected
+ */
+function getSelection(
+  positionOrRange: number | ts_module.TextRange
+): ts_module.TextRange | undefined {
+  return typeof positionOrRange === "number" ||
+    positionOrRange.pos === positionOrRange.end
+    ? undefined
+    : positionOrRange;
+}
+
 function replacementsAreEmpty(fix: eslint.Rule.Fix | undefined): boolean {
   if (Array.isArray(fix)) {
     return fix.length === 0;
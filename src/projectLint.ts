@@ -0,0 +1,301 @@
+import * as eslint from 'eslint';
+import * as ts_module from 'typescript/lib/tsserverlibrary';
+
+import { pluginId } from './config';
+
+/**
+ * Starts linting all files of a project. Responds with the id of the lint,
+ * progress and results are reported with events.
+ */
+export const lintProjectCommand = `${pluginId}.lintProject`;
+export const cancelLintProjectCommand = `${pluginId}.cancelLintProject`;
+export const lintProjectProgressEvent = `${pluginId}.lintProjectProgress`;
+export const lintProjectResultEvent = `${pluginId}.lintProjectResult`;
+
+export interface LintProjectRequestArguments {
+  /**
+   * The tsconfig.json or jsconfig.json of the project
+   */
+  readonly projectFileName?: string;
+  /**
+   * A file of the project, used if `projectFileName` is not given
+   */
+  readonly file?: string;
+}
+
+export interface LintProjectResponse {
+  readonly lintId: number;
+  readonly projectFileName: string;
+}
+
+export interface CancelLintProjectRequestArguments {
+  readonly lintId: number;
+}
+
+export interface CancelLintProjectResponse {
+  /**
+   * False if the lint already completed
+   */
+  readonly cancelled: boolean;
+}
+
+export interface ReportedProblem {
+  readonly ruleId: string | null;
+  readonly severity: "error" | "warning";
+  readonly message: string;
+  readonly line: number;
+  readonly column: number;
+  readonly endLine?: number;
+  readonly endColumn?: number;
+}
+
+export interface FileProblems {
+  readonly fileName: string;
+  readonly problems: ReportedProblem[];
+}
+
+export interface RuleSummary {
+  /**
+   * null for problems not reported by a rule, like parsing errors
+   */
+  readonly ruleId: string | null;
+  readonly errorCount: number;
+  readonly warningCount: number;
+}
+
+export interface LintProjectProgressEventBody {
+  readonly lintId: number;
+  readonly projectFileName: string;
+  readonly fileName: string;
+  readonly completed: number;
+  readonly total: number;
+}
+
+export interface LintProjectResultEventBody {
+  readonly lintId: number;
+  readonly projectFileName: string;
+  readonly cancelled: boolean;
+  /**
+   * Files with problems
+   */
+  readonly files: FileProblems[];
+  readonly summary: RuleSummary[];
+  /**
+   * Files that could not be linted
+   */
+  readonly errors: Array<{ fileName: string, message: string }>;
+  /**
+   * Why linting the project failed, no problems are reported then
+   */
+  readonly failure?: string;
+}
+
+/**
+ * A project that can be linted by the project lint command
+ */
+export interface ProjectLinter {
+  readonly projectFileName: string;
+  isClosed(): boolean;
+  containsFile(fileName: string): boolean;
+  getProjectFiles(): string[];
+  lintFile(fileName: string): Promise<eslint.Linter.LintMessage[]>;
+}
+
+/**
+ * Handles the project lint commands of a tsserver session for all projects
+ * the plugin was created for.
+ */
+export class ProjectLintCommands {
+  private readonly session: Pick<
+    ts_module.server.Session,
+    "addProtocolHandler" | "event"
+  >;
+  private readonly linters: ProjectLinter[] = [];
+  // lint id -> cancellation state of running lints
+  private readonly runningLints = new Map<number, { cancelled: boolean }>();
+  private lastLintId = 0;
+
+  public constructor(
+    session: Pick<ts_module.server.Session, "addProtocolHandler" | "event">
+  ) {
+    this.session = session;
+    session.addProtocolHandler(lintProjectCommand, (request) =>
+      this.startLint(request.arguments || {})
+    );
+    session.addProtocolHandler(cancelLintProjectCommand, (request) =>
+      this.cancelLint(request.arguments)
+    );
+  }
+
+  public addLinter(linter: ProjectLinter): void {
+    this.linters.push(linter);
+  }
+
+  public removeLinter(linter: ProjectLinter): void {
+    const index = this.linters.indexOf(linter);
+    if (index >= 0) {
+      this.linters.splice(index, 1);
+    }
+  }
+
+  private startLint(
+    args: LintProjectRequestArguments
+  ): ts_module.server.HandlerResponse {
+    const linter = this.findLinter(args);
+    const fileNames = linter.getProjectFiles();
+    const lintId = ++this.lastLintId;
+    const state = { cancelled: false };
+    this.runningLints.set(lintId, state);
+    this.lintProject(lintId, linter, fileNames, state).catch((e) => {
+      const result: LintProjectResultEventBody = {
+        lintId,
+        projectFileName: linter.projectFileName,
+        cancelled: state.cancelled,
+        files: [],
+        summary: [],
+        errors: [],
+        failure: e && e.message ? e.message : `${e}`
+      };
+      this.session.event(result, lintProjectResultEvent);
+    });
+
+    const response: LintProjectResponse = {
+      lintId,
+      projectFileName: linter.projectFileName
+    };
+    return { response, responseRequired: true };
+  }
+
+  private cancelLint(
+    args: CancelLintProjectRequestArguments | undefined
+  ): ts_module.server.HandlerResponse {
+    const state = args && this.runningLints.get(args.lintId);
+    if (state) {
+      state.cancelled = true;
+    }
+    const response: CancelLintProjectResponse = {
+      cancelled: state !== undefined
+    };
+    return { response, responseRequired: true };
+  }
+
+  private findLinter(args: LintProjectRequestArguments): ProjectLinter {
+    const linters = this.linters.filter((x) => !x.isClosed());
+    let linter: ProjectLinter | undefined;
+    if (args.projectFileName) {
+      linter = linters.find((x) => x.projectFileName === args.projectFileName);
+    } else if (args.file) {
+      const file = args.file;
+      linter = linters.find((x) => x.containsFile(file));
+    } else if (linters.length === 1) {
+      linter = linters[0];
+    }
+    if (!linter) {
+      throw new Error(
+        args.projectFileName || args.file
+          ? `No project found for '${args.projectFileName || args.file}'`
+          : "Specify the project to lint with 'projectFileName' or 'file'"
+      );
+    }
+    return linter;
+  }
+
+  private async lintProject(
+    lintId: number,
+    linter: ProjectLinter,
+    fileNames: readonly string[],
+    state: { cancelled: boolean }
+  ): Promise<void> {
+    const projectFileName = linter.projectFileName;
+    const files: FileProblems[] = [];
+    const errors: Array<{ fileName: string, message: string }> = [];
+    try {
+      for (let i = 0; i < fileNames.length; ++i) {
+        // let tsserver handle other requests, like the cancellation of this lint
+        await new Promise((resolve) => setImmediate(resolve));
+        if (state.cancelled) {
+          break;
+        }
+
+        const fileName = fileNames[i];
+        try {
+          const problems = await linter.lintFile(fileName);
+          if (problems.length > 0) {
+            files.push({ fileName, problems: problems.map(toReportedProblem) });
+          }
+        } catch (e) {
+          errors.push({
+            fileName,
+            message: e && e.message ? e.message : `${e}`
+          });
+        }
+
+        const progress: LintProjectProgressEventBody = {
+          lintId,
+          projectFileName,
+          fileName,
+          completed: i + 1,
+          total: fileNames.length
+        };
+        this.session.event(progress, lintProjectProgressEvent);
+      }
+    } finally {
+      this.runningLints.delete(lintId);
+    }
+
+    const result: LintProjectResultEventBody = {
+      lintId,
+      projectFileName,
+      cancelled: state.cancelled,
+      files,
+      summary: summarizeProblems(files),
+      errors
+    };
+    this.session.event(result, lintProjectResultEvent);
+  }
+}
+
+/**
+ * Count the problems of every rule, the rules with the most problems first
+ */
+export function summarizeProblems(
+  files: readonly FileProblems[]
+): RuleSummary[] {
+  const summaries = new Map<
+    string | null,
+    { ruleId: string | null, errorCount: number, warningCount: number }
+  >();
+  for (const file of files) {
+    for (const problem of file.problems) {
+      let summary = summaries.get(problem.ruleId);
+      if (!summary) {
+        summary = { ruleId: problem.ruleId, errorCount: 0, warningCount: 0 };
+        summaries.set(problem.ruleId, summary);
+      }
+      if (problem.severity === "error") {
+        ++summary.errorCount;
+      } else {
+        ++summary.warningCount;
+      }
+    }
+  }
+  return Array.from(summaries.values()).sort(
+    (a, b) =>
+      b.errorCount + b.warningCount - (a.errorCount + a.warningCount) ||
+      (a.ruleId || "").localeCompare(b.ruleId || "")
+  );
+}
+
+function toReportedProblem(
+  problem: eslint.Linter.LintMessage
+): ReportedProblem {
+  return {
+    ruleId: problem.ruleId,
+    severity: problem.severity === 2 ? "error" : "warning",
+    message: problem.message,
+    line: problem.line,
+    column: problem.column,
+    endLine: problem.endLine,
+    endColumn: problem.endColumn
+  };
+}
@@ -0,0 +1,466 @@
+import * as fs from 'fs';
+import { basename, dirname, extname, isAbsolute, join, resolve } from 'path';
+
+/**
+ * Flat config file names in the order eslint looks them up
+ */
+export const flatConfigFileNames = [
+  "eslint.config.js",
+  "eslint.config.mjs",
+  "eslint.config.cjs"
+];
+
+export function isFlatConfigFile(filePath: string): boolean {
+  return flatConfigFileNames.indexOf(basename(filePath)) !== -1;
+}
+
+/**
+ * Find the flat config file closest to the given file, searching its
+ * directory and all parent directories.
+ */
+export function findFlatConfigFile(filePath: string): string | undefined {
+  let directory = dirname(filePath);
+  for (;;) {
+    for (const name of flatConfigFileNames) {
+      const candidate = join(directory, name);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Legacy config file names in the order eslint prefers them within a directory
+ */
+export const eslintrcFileNames = [
+  ".eslintrc.js",
+  ".eslintrc.cjs",
+  ".eslintrc.yaml",
+  ".eslintrc.yml",
+  ".eslintrc.json",
+  ".eslintrc",
+  "package.json"
+];
+
+/**
+ * Find the legacy config file closest to the given file, searching its
+ * directory and all parent directories. A `package.json` only counts if it
+ * has an `eslintConfig` field.
+ */
+export function findEslintrcConfigFile(filePath: string): string | undefined {
+  let directory = dirname(filePath);
+  for (;;) {
+    const configPath = findEslintrcConfigFileIn(directory);
+    if (configPath) {
+      return configPath;
+    }
+
+    const parent = dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Find the root of the package a file belongs to: the closest directory with
+ * a `package.json`, a flat config file or an eslintrc file with `root: true`.
+ * The search does not go above the workspace folder, which is the root if
+ * no closer one is found.
+ */
+export function findPackageRoot(
+  filePath: string,
+  workspaceFolderPath: string | undefined
+): string | undefined {
+  let directory = dirname(filePath);
+  for (;;) {
+    if (isPackageRoot(directory)) {
+      return directory;
+    }
+
+    const parent = dirname(directory);
+    if (directory === workspaceFolderPath || parent === directory) {
+      return workspaceFolderPath;
+    }
+    directory = parent;
+  }
+}
+
+function isPackageRoot(directory: string): boolean {
+  if (
+    fs.existsSync(join(directory, "package.json")) ||
+    flatConfigFileNames.some((name) => fs.existsSync(join(directory, name)))
+  ) {
+    return true;
+  }
+  const configPath = findEslintrcConfigFileIn(directory);
+  return configPath !== undefined && readConfigReferences(configPath).root;
+}
+
+function hasPackageJsonField(packageJsonPath: string, field: string): boolean {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+    return Boolean(packageJson) && typeof packageJson[field] === "object";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The files that contribute to the configuration of a file and the
+ * directories in which creating a config file would change it
+ */
+export interface ConfigCascade {
+  readonly files: string[];
+  readonly directories: string[];
+  /**
+   * The ignore file of the workspace folder when eslint runs in a package
+   * root below it. eslint only reads the ignore file of its working
+   * directory, the runner checks this one in addition.
+   */
+  readonly workspaceIgnoreFile?: string;
+}
+
+export interface ConfigCascadeOptions {
+  readonly cwd?: string;
+  readonly workspaceFolderPath?: string;
+  readonly configFile?: string;
+  readonly useEslintrc?: boolean;
+  readonly ignorePath?: string;
+  readonly flatConfigFile?: string;
+}
+
+/**
+ * Find the config files eslint uses for a file: the configured config file,
+ * the `.eslintrc.*` files up to the first one with `root: true`, the shared
+ * configs they extend, and the ignore files. The `extends` of JavaScript and
+ * YAML configs are detected on a best effort basis, without executing or
+ * fully parsing them.
+ */
+export function getConfigCascade(
+  filePath: string,
+  options: ConfigCascadeOptions
+): ConfigCascade {
+  const files: string[] = [];
+  const directories: string[] = [];
+  const addConfig = (configPath: string): void => {
+    addConfigWithExtends(configPath, files, options.cwd);
+  };
+
+  if (options.flatConfigFile) {
+    files.push(options.flatConfigFile);
+    addSearchedDirectories(
+      filePath,
+      dirname(options.flatConfigFile),
+      directories
+    );
+    return { files, directories };
+  }
+
+  if (options.configFile) {
+    addConfig(options.configFile);
+  }
+  if (options.useEslintrc !== false) {
+    let directory = dirname(filePath);
+    for (;;) {
+      directories.push(directory);
+      const configPath = findEslintrcConfigFileIn(directory);
+      if (configPath) {
+        addConfig(configPath);
+        if (readConfigReferences(configPath).root) {
+          break;
+        }
+      }
+
+      const parent = dirname(directory);
+      if (parent === directory) {
+        break;
+      }
+      directory = parent;
+    }
+  }
+
+  if (options.cwd) {
+    if (directories.indexOf(options.cwd) === -1) {
+      directories.push(options.cwd);
+    }
+    const packageJson = join(options.cwd, "package.json");
+    if (
+      files.indexOf(packageJson) === -1 &&
+      hasPackageJsonField(packageJson, "eslintIgnore")
+    ) {
+      files.push(packageJson);
+    }
+  }
+  const ignoreFile = options.ignorePath
+    ? options.ignorePath
+    : options.cwd && join(options.cwd, ".eslintignore");
+  if (ignoreFile && fs.existsSync(ignoreFile)) {
+    files.push(ignoreFile);
+  }
+
+  const { workspaceFolderPath } = options;
+  if (
+    !workspaceFolderPath ||
+    workspaceFolderPath === options.cwd ||
+    options.ignorePath
+  ) {
+    return { files, directories };
+  }
+  if (directories.indexOf(workspaceFolderPath) === -1) {
+    directories.push(workspaceFolderPath);
+  }
+  const workspaceIgnoreFile = findIgnoreFile(workspaceFolderPath);
+  if (workspaceIgnoreFile && files.indexOf(workspaceIgnoreFile) === -1) {
+    files.push(workspaceIgnoreFile);
+  }
+  return { files, directories, workspaceIgnoreFile };
+}
+
+/**
+ * Find the ignore file eslint reads in its working directory: the
+ * `.eslintignore` file or else the `eslintIgnore` field of the `package.json`
+ */
+function findIgnoreFile(directory: string): string | undefined {
+  const ignoreFile = join(directory, ".eslintignore");
+  if (fs.existsSync(ignoreFile)) {
+    return ignoreFile;
+  }
+  const packageJson = join(directory, "package.json");
+  return hasPackageJsonField(packageJson, "eslintIgnore")
+    ? packageJson
+    : undefined;
+}
+
+/**
+ * Names of the files that can change the configuration when they are
+ * created in a directory of the cascade
+ */
+export function isConfigFileName(name: string): boolean {
+  return (
+    eslintrcFileNames.indexOf(name) !== -1 ||
+    flatConfigFileNames.indexOf(name) !== -1 ||
+    name === ".eslintignore"
+  );
+}
+
+function findEslintrcConfigFileIn(directory: string): string | undefined {
+  for (const name of eslintrcFileNames) {
+    const candidate = join(directory, name);
+    if (
+      fs.existsSync(candidate) &&
+      (name !== "package.json" ||
+        hasPackageJsonField(candidate, "eslintConfig"))
+    ) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+function addSearchedDirectories(
+  filePath: string,
+  lastDirectory: string,
+  directories: string[]
+): void {
+  let directory = dirname(filePath);
+  for (;;) {
+    directories.push(directory);
+    const parent = dirname(directory);
+    if (directory === lastDirectory || parent === directory) {
+      return;
+    }
+    directory = parent;
+  }
+}
+
+function addConfigWithExtends(
+  configPath: string,
+  files: string[],
+  cwd: string | undefined
+): void {
+  if (files.indexOf(configPath) !== -1 || !fs.existsSync(configPath)) {
+    return;
+  }
+  files.push(configPath);
+  for (const name of readConfigReferences(configPath).extends) {
+    const sharedConfig = resolveSharedConfig(name, configPath, cwd);
+    if (sharedConfig) {
+      addConfigWithExtends(sharedConfig, files, cwd);
+    }
+  }
+}
+
+interface ConfigReferences {
+  readonly root: boolean;
+  readonly extends: string[];
+}
+
+function readConfigReferences(configPath: string): ConfigReferences {
+  let text: string;
+  try {
+    text = fs.readFileSync(configPath, "utf8");
+  } catch {
+    return { root: false, extends: [] };
+  }
+
+  const name = basename(configPath);
+  const extension = extname(name);
+  if (
+    name === "package.json" ||
+    extension === ".json" ||
+    (name === ".eslintrc" && text.trim().startsWith("{"))
+  ) {
+    try {
+      const json = JSON.parse(stripJsonComments(text));
+      const config = name === "package.json" ? json.eslintConfig : json;
+      return {
+        root: Boolean(config) && config.root === true,
+        extends: toStringArray(config && config.extends)
+      };
+    } catch {
+      return { root: false, extends: [] };
+    }
+  }
+  if (extension === ".yaml" || extension === ".yml" || name === ".eslintrc") {
+    return {
+      root: /^root[ \t]*:[ \t]*true\b/m.test(text),
+      extends: getYamlExtends(text)
+    };
+  }
+  // JavaScript configs
+  const extendsMatch = /\bextends\s*:\s*(\[[^\]]*\]|"[^"]*"|'[^']*')/.exec(
+    text
+  );
+  return {
+    root: /\broot\s*:\s*true\b/.test(text),
+    extends: extendsMatch ? getQuotedStrings(extendsMatch[1]) : []
+  };
+}
+
+function getYamlExtends(text: string): string[] {
+  const match = /^extends[ \t]*:[ \t]*(.*)$/m.exec(text);
+  if (!match) {
+    return [];
+  }
+  const value = match[1].replace(/\s#.*$/, "").trim();
+  if (value.startsWith("[")) {
+    return value
+      .slice(1, value.lastIndexOf("]"))
+      .split(",")
+      .map(unquote)
+      .filter((x) => x);
+  }
+  if (value) {
+    return [unquote(value)];
+  }
+  const items: string[] = [];
+  const following = text.slice(match.index + match[0].length).split(/\r?\n/);
+  for (const line of following.slice(1)) {
+    const item = /^[ \t]*-[ \t]*(.+)$/.exec(line);
+    if (item) {
+      items.push(unquote(item[1].replace(/\s#.*$/, "")));
+    } else if (line.trim() !== "" && !/^[ \t]*#/.test(line)) {
+      break;
+    }
+  }
+  return items;
+}
+
+function unquote(text: string): string {
+  return text.trim().replace(/^(["'])(.*)\1$/, "$2");
+}
+
+function getQuotedStrings(text: string): string[] {
+  const strings: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    strings.push(match[1] !== undefined ? match[1] : match[2]);
+  }
+  return strings;
+}
+
+function toStringArray(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [value];
+  }
+  return Array.isArray(value)
+    ? value.filter((x): x is string => typeof x === "string")
+    : [];
+}
+
+// eslint parses JSON configs after removing comments
+function stripJsonComments(text: string): string {
+  return text.replace(
+    /("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    (match, string) => string || match.replace(/[^\n]/g, " ")
+  );
+}
+
+/**
+ * Resolve the file of a config in `extends` like eslint, returns undefined
+ * for the built-in configs and configs that can not be resolved.
+ */
+function resolveSharedConfig(
+  name: string,
+  importerPath: string,
+  cwd: string | undefined
+): string | undefined {
+  if (name.startsWith("eslint:")) {
+    return undefined;
+  }
+  const importerDirectory = dirname(importerPath);
+  if (isAbsolute(name) || name.startsWith(".")) {
+    return resolveModule(resolve(importerDirectory, name), [importerDirectory]);
+  }
+
+  const request = name.startsWith("plugin:")
+    ? normalizePackageName(
+        name.slice("plugin:".length, name.lastIndexOf("/")),
+        "eslint-plugin"
+      )
+    : normalizePackageName(name, "eslint-config");
+  return resolveModule(
+    request,
+    cwd ? [importerDirectory, cwd] : [importerDirectory]
+  );
+}
+
+function resolveModule(request: string, paths: string[]): string | undefined {
+  try {
+    return require.resolve(request, { paths });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Add the prefix of eslint packages to a shorthand name, like eslint does
+ */
+function normalizePackageName(name: string, prefix: string): string {
+  const normalized = name.replace(/\\/g, "/");
+  if (normalized.startsWith("@")) {
+    const scopeOnly = new RegExp(`^(@[^/]+)(?:/(?:${prefix})?)?$`).exec(
+      normalized
+    );
+    if (scopeOnly) {
+      return `${scopeOnly[1]}/${prefix}`;
+    }
+    const scoped = /^@[^/]+\/(.*)$/.exec(normalized);
+    return scoped && scoped[1].startsWith(prefix)
+      ? normalized
+      : normalized.replace(/^@([^/]+)\/(.*)$/, `@$1/${prefix}-$2`);
+  }
+  return normalized.startsWith(`${prefix}-`)
+    ? normalized
+    : `${prefix}-${normalized}`;
+}
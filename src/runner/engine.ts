@@ -0,0 +1,678 @@
+import * as eslint from 'eslint'; // this is a dev dependency only
+import { dirname, join } from 'path';
+
+import { getElapsedMs } from './log';
+
+/**
+ * Subset of the `ESLint` class API (ESLint 7+) used by the runner. The class
+ * is not part of the eslint typings this project builds against.
+ */
+export interface ESLintClassInstance {
+  lintText(
+    code: string,
+    options?: { filePath?: string, warnIgnored?: boolean }
+  ): Promise<eslint.CLIEngine.LintResult[]>;
+  calculateConfigForFile(filePath: string): Promise<eslint.Linter.Config>;
+  isPathIgnored(filePath: string): Promise<boolean>;
+  /**
+   * Added in ESLint 7.8
+   */
+  getRulesMetaForResults?(
+    results: eslint.CLIEngine.LintResult[]
+  ): { [ruleId: string]: eslint.Rule.RuleMetaData | undefined };
+}
+
+export interface ESLintClass {
+  readonly version: string;
+  new (options?: Record<string, unknown>): ESLintClassInstance;
+}
+
+export type EsLintLibrary = typeof eslint & {
+  readonly ESLint?: ESLintClass;
+  /**
+   * Flat config implementation of ESLint 8, loaded from `eslint/use-at-your-own-risk`
+   */
+  readonly FlatESLint?: ESLintClass;
+  /**
+   * eslintrc implementation of ESLint 9 and later, loaded from `eslint/use-at-your-own-risk`
+   */
+  readonly LegacyESLint?: ESLintClass;
+  /**
+   * Undefined if the timing module of eslint could not be loaded
+   */
+  readonly ruleTimer?: RuleTimer;
+};
+
+/**
+ * The internal module eslint times rules with when the `TIMING` environment
+ * variable is set. The linter checks `enabled` whenever it lints.
+ */
+interface TimingModule {
+  enabled: boolean;
+  time(
+    key: string,
+    listener: (...args: unknown[]) => void
+  ): (...args: unknown[]) => void;
+}
+
+export interface RuleTimes {
+  [ruleId: string]: number;
+}
+
+/**
+ * Measures the time spent in every rule by taking over the timing module of
+ * eslint. The module is shared by all lints of the library, so they run one
+ * after another and the times of overlapping lints are not mixed.
+ */
+export class RuleTimer {
+  private times?: RuleTimes;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly timing: TimingModule;
+
+  public constructor(timing: TimingModule) {
+    this.timing = timing;
+    timing.time = (ruleId, listener) => (...args) => {
+      const times = this.times;
+      if (!times) {
+        return listener(...args);
+      }
+      const start = process.hrtime();
+      try {
+        return listener(...args);
+      } finally {
+        times[ruleId] = (times[ruleId] || 0) + getElapsedMs(start);
+      }
+    };
+  }
+
+  /**
+   * Run a lint, returning its result and the milliseconds spent in every rule
+   */
+  public time<T>(
+    lint: () => Promise<T>
+  ): Promise<{ result: T, ruleTimes: RuleTimes }> {
+    return this.enqueue(async () => {
+      const ruleTimes: RuleTimes = {};
+      this.times = ruleTimes;
+      this.timing.enabled = true;
+      try {
+        return { result: await lint(), ruleTimes };
+      } finally {
+        this.timing.enabled = false;
+        this.times = undefined;
+      }
+    });
+  }
+
+  /**
+   * Run a lint without timing its rules, once the timed lints are done
+   */
+  public run<T>(lint: () => Promise<T>): Promise<T> {
+    return this.enqueue(lint);
+  }
+
+  private enqueue<T>(lint: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(lint);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export interface LintEngineOptions {
+  readonly cwd?: string;
+  /**
+   * Fix problems, the fixed text is the `output` of the results. A function
+   * only lets the problems it accepts be fixed.
+   */
+  readonly fix?: boolean | ((message: eslint.Linter.LintMessage) => boolean);
+  /**
+   * Only fix the problems of rules of these types
+   */
+  readonly fixTypes?: Array<"problem" | "suggestion" | "layout">;
+  readonly allowInlineConfig?: boolean;
+  readonly reportUnusedDisableDirectives?: boolean;
+  // eslintrc only options, flat config files configure these themselves
+  readonly configFile?: string;
+  readonly useEslintrc?: boolean;
+  readonly baseConfig?: eslint.Linter.Config;
+  readonly rulePaths?: string[];
+  readonly resolvePluginsRelativeTo?: string;
+  readonly extensions?: string[];
+  readonly ignorePath?: string;
+  /**
+   * Lint using this flat config file instead of eslintrc files
+   */
+  readonly flatConfigFile?: string;
+  /**
+   * Parser options that take precedence over the ones from the configuration
+   */
+  readonly parserOptions?: Record<string, unknown>;
+  /**
+   * Measure the time spent in every rule, see `LintTextResult.ruleTimes`
+   */
+  readonly timeRules?: boolean;
+  /**
+   * Rules that are turned off regardless of the configuration
+   */
+  readonly disabledRules?: string[];
+}
+
+/**
+ * The part of the metadata of a rule that is passed on from the runner
+ */
+export interface RuleMetadata {
+  readonly type?: "problem" | "suggestion" | "layout";
+  readonly docs?: {
+    readonly description?: string;
+    readonly category?: string;
+    readonly url?: string;
+    /**
+     * Set by typescript-eslint for rules that need type information
+     */
+    readonly requiresTypeChecking?: boolean;
+  };
+  readonly fixable?: "code" | "whitespace";
+  readonly hasSuggestions?: boolean;
+  readonly deprecated?: boolean;
+}
+
+/**
+ * Load the eslint library at the given path together with the alternative
+ * implementations it only exposes through `eslint/use-at-your-own-risk`.
+ */
+export function loadEsLintLibrary(esLintPath: string): EsLintLibrary {
+  const library: EsLintLibrary = {
+    ...require(esLintPath),
+    ruleTimer: loadRuleTimer(esLintPath)
+  };
+  const major = parseInt(getEsLintVersion(library), 10);
+  if (!(major >= 8)) {
+    return library;
+  }
+
+  let unsupportedApi: Pick<EsLintLibrary, "FlatESLint" | "LegacyESLint">;
+  try {
+    unsupportedApi = require(require.resolve("eslint/use-at-your-own-risk", {
+      paths: [dirname(esLintPath)]
+    }));
+  } catch {
+    return library;
+  }
+  return {
+    ...library,
+    FlatESLint: library.FlatESLint || unsupportedApi.FlatESLint,
+    LegacyESLint: library.LegacyESLint || unsupportedApi.LegacyESLint
+  };
+}
+
+function loadRuleTimer(esLintPath: string): RuleTimer | undefined {
+  let timing: TimingModule;
+  try {
+    // not exported by the package, `esLintPath` is the main module in `lib`
+    timing = require(join(dirname(esLintPath), "linter", "timing.js"));
+  } catch {
+    return undefined;
+  }
+  // leave the timing to eslint when it is enabled with TIMING
+  return timing && typeof timing.time === "function" && !timing.enabled
+    ? new RuleTimer(timing)
+    : undefined;
+}
+
+/**
+ * Check if the library is able to lint using flat config files
+ */
+export function supportsFlatConfig(library: EsLintLibrary): boolean {
+  return getFlatESLintClass(library) !== undefined;
+}
+
+function getFlatESLintClass(library: EsLintLibrary): ESLintClass | undefined {
+  const major = parseInt(getEsLintVersion(library), 10);
+  return major >= 9 ? library.ESLint : library.FlatESLint;
+}
+
+function getEslintrcESLintClass(
+  library: EsLintLibrary
+): ESLintClass | undefined {
+  const major = parseInt(getEsLintVersion(library), 10);
+  if (major >= 9) {
+    return library.LegacyESLint;
+  }
+  return major >= 7 ? library.ESLint : undefined;
+}
+
+/**
+ * Common surface over the different eslint APIs. Results are always
+ * normalized to the `CLIEngine` report shape.
+ */
+export interface LintEngine {
+  readonly api: "CLIEngine" | "ESLint";
+  readonly configType: "eslintrc" | "flat";
+  readonly version: string;
+  lintText(text: string, filePath: string): Promise<LintTextResult>;
+  calculateConfigForFile(filePath: string): Promise<eslint.Linter.Config>;
+  isPathIgnored(filePath: string): Promise<boolean>;
+  /**
+   * Get the metadata of the rules that reported the problems of the results
+   */
+  getRulesMeta(
+    results: eslint.CLIEngine.LintResult[]
+  ): { [ruleId: string]: RuleMetadata };
+  /**
+   * Get the metadata of rules in the configuration of a file
+   */
+  getRulesMetaForRuleIds(
+    filePath: string,
+    ruleIds: string[]
+  ): { [ruleId: string]: RuleMetadata };
+}
+
+export interface LintTextResult {
+  readonly report: eslint.CLIEngine.LintReport;
+  /**
+   * Milliseconds spent in every rule, undefined unless linting with
+   * `timeRules` and eslint can time rules
+   */
+  readonly ruleTimes?: RuleTimes;
+}
+
+/**
+ * Get the version of a loaded eslint library
+ */
+export function getEsLintVersion(library: EsLintLibrary): string {
+  if (library.ESLint && typeof library.ESLint.version === "string") {
+    return library.ESLint.version;
+  }
+  const linter = library.Linter as typeof eslint.Linter & { version?: string };
+  if (linter && typeof linter.version === "string") {
+    return linter.version;
+  }
+  return linter ? new linter().version : "unknown";
+}
+
+/**
+ * Create the engine matching the loaded eslint version. The `ESLint` class is
+ * preferred from ESLint 7 on, `CLIEngine` was removed in ESLint 8.
+ */
+export function createLintEngine(
+  library: EsLintLibrary,
+  options: LintEngineOptions
+): LintEngine {
+  const version = getEsLintVersion(library);
+  const ruleTimer = library.ruleTimer;
+
+  if (options.flatConfigFile) {
+    const flatESLint = getFlatESLintClass(library);
+    if (!flatESLint) {
+      throw new Error(`eslint ${version} does not support flat config files`);
+    }
+    return new ESLintClassEngine(
+      flatESLint,
+      "flat",
+      version,
+      options,
+      ruleTimer
+    );
+  }
+
+  const eslintrcESLint = getEslintrcESLintClass(library);
+  if (eslintrcESLint) {
+    return new ESLintClassEngine(
+      eslintrcESLint,
+      "eslintrc",
+      version,
+      options,
+      ruleTimer
+    );
+  }
+  if (typeof library.CLIEngine === "function") {
+    return new CLIEngineEngine(library.CLIEngine, version, options, ruleTimer);
+  }
+  throw new Error(`Unsupported eslint version ${version}`);
+}
+
+/**
+ * The options of CLIEngine, including the fix options its type declarations
+ * are missing
+ */
+type CLIEngineOptions = Omit<eslint.CLIEngine.Options, "fix"> &
+  Pick<LintEngineOptions, "fix" | "fixTypes">;
+
+class CLIEngineEngine implements LintEngine {
+  public readonly api = "CLIEngine";
+  public readonly configType = "eslintrc";
+  public readonly version: string;
+  private readonly options: LintEngineOptions;
+  private readonly ruleTimer?: RuleTimer;
+  private readonly engine: eslint.CLIEngine;
+
+  public constructor(
+    cliEngine: typeof eslint.CLIEngine,
+    version: string,
+    options: LintEngineOptions,
+    ruleTimer?: RuleTimer
+  ) {
+    this.version = version;
+    this.options = options;
+    this.ruleTimer = ruleTimer;
+    this.engine = new cliEngine(
+      withoutUndefined<CLIEngineOptions>({
+        fix: options.fix || false,
+        fixTypes: options.fixTypes,
+        cwd: options.cwd,
+        configFile: options.configFile,
+        useEslintrc: options.useEslintrc,
+        baseConfig: options.baseConfig,
+        rulePaths: options.rulePaths,
+        resolvePluginsRelativeTo: options.resolvePluginsRelativeTo,
+        extensions: options.extensions,
+        ignorePath: options.ignorePath,
+        allowInlineConfig: options.allowInlineConfig,
+        reportUnusedDisableDirectives: options.reportUnusedDisableDirectives,
+        parserOptions: options.parserOptions,
+        rules: getDisabledRulesConfig(options)
+      }) as eslint.CLIEngine.Options
+    );
+  }
+
+  public async lintText(
+    text: string,
+    filePath: string
+  ): Promise<LintTextResult> {
+    const lint = (): Promise<eslint.CLIEngine.LintReport> =>
+      new Promise((resolve) =>
+        resolve(this.engine.executeOnText(text, filePath))
+      );
+    return lintWithTimer(lint, this.options, this.ruleTimer);
+  }
+
+  public calculateConfigForFile(
+    filePath: string
+  ): Promise<eslint.Linter.Config> {
+    // the executor turns errors of the synchronous API into rejections
+    return new Promise((resolve) =>
+      resolve(this.engine.getConfigForFile(filePath))
+    );
+  }
+
+  public isPathIgnored(filePath: string): Promise<boolean> {
+    return new Promise((resolve) =>
+      resolve(this.engine.isPathIgnored(filePath))
+    );
+  }
+
+  public getRulesMeta(
+    results: eslint.CLIEngine.LintResult[]
+  ): { [ruleId: string]: RuleMetadata } {
+    return this.getRulesMetaForRuleIds("", getRuleIds(results));
+  }
+
+  public getRulesMetaForRuleIds(
+    _filePath: string,
+    ruleIds: string[]
+  ): { [ruleId: string]: RuleMetadata } {
+    const rules = this.engine.getRules();
+    return pickRulesMeta(ruleIds, (ruleId) => {
+      const rule = rules.get(ruleId);
+      return rule && rule.meta;
+    });
+  }
+}
+
+class ESLintClassEngine implements LintEngine {
+  public readonly api = "ESLint";
+  public readonly configType: "eslintrc" | "flat";
+  public readonly version: string;
+  private readonly options: LintEngineOptions;
+  private readonly ruleTimer?: RuleTimer;
+  private readonly engine: ESLintClassInstance;
+
+  public constructor(
+    eslintClass: ESLintClass,
+    configType: "eslintrc" | "flat",
+    version: string,
+    options: LintEngineOptions,
+    ruleTimer?: RuleTimer
+  ) {
+    this.configType = configType;
+    this.version = version;
+    this.options = options;
+    this.ruleTimer = ruleTimer;
+    const commonOptions = {
+      fix: options.fix || false,
+      fixTypes: options.fixTypes,
+      overrideConfig: getOverrideConfig(configType, options),
+      allowInlineConfig: options.allowInlineConfig,
+      reportUnusedDisableDirectives:
+        options.reportUnusedDisableDirectives === undefined
+          ? undefined
+          : options.reportUnusedDisableDirectives
+          ? "error"
+          : "off"
+    };
+    this.engine = new eslintClass(
+      withoutUndefined(
+        configType === "flat"
+          ? {
+              ...commonOptions,
+              // patterns in a flat config are relative to the directory of the config file
+              cwd: options.flatConfigFile && dirname(options.flatConfigFile),
+              overrideConfigFile: options.flatConfigFile
+            }
+          : {
+              ...commonOptions,
+              cwd: options.cwd,
+              overrideConfigFile: options.configFile,
+              useEslintrc: options.useEslintrc,
+              baseConfig: options.baseConfig,
+              rulePaths: options.rulePaths,
+              resolvePluginsRelativeTo: options.resolvePluginsRelativeTo,
+              extensions: options.extensions,
+              ignorePath: options.ignorePath
+            }
+      )
+    );
+  }
+
+  public async lintText(
+    text: string,
+    filePath: string
+  ): Promise<LintTextResult> {
+    const lint = async (): Promise<eslint.CLIEngine.LintReport> =>
+      toLintReport(
+        await this.engine.lintText(text, {
+          filePath,
+          // ignored files are skipped by the runner, they are never linted
+          warnIgnored: false
+        })
+      );
+    return lintWithTimer(lint, this.options, this.ruleTimer);
+  }
+
+  public calculateConfigForFile(
+    filePath: string
+  ): Promise<eslint.Linter.Config> {
+    return this.engine.calculateConfigForFile(filePath);
+  }
+
+  public isPathIgnored(filePath: string): Promise<boolean> {
+    return this.engine.isPathIgnored(filePath);
+  }
+
+  public getRulesMeta(
+    results: eslint.CLIEngine.LintResult[]
+  ): { [ruleId: string]: RuleMetadata } {
+    if (!this.engine.getRulesMetaForResults) {
+      return {};
+    }
+    const rulesMeta = this.engine.getRulesMetaForResults(results);
+    return pickRulesMeta(getRuleIds(results), (ruleId) => rulesMeta[ruleId]);
+  }
+
+  public getRulesMetaForRuleIds(
+    filePath: string,
+    ruleIds: string[]
+  ): { [ruleId: string]: RuleMetadata } {
+    // the ESLint class only looks up the rules of the messages of results
+    const result: eslint.CLIEngine.LintResult & {
+      suppressedMessages: eslint.Linter.LintMessage[];
+    } = {
+      filePath,
+      messages: ruleIds.map((ruleId) => ({
+        ruleId,
+        severity: 1 as const,
+        message: "",
+        line: 1,
+        column: 1,
+        nodeType: "",
+        source: null
+      })),
+      suppressedMessages: [],
+      errorCount: 0,
+      warningCount: ruleIds.length,
+      fixableErrorCount: 0,
+      fixableWarningCount: 0
+    };
+    return this.getRulesMeta([result]);
+  }
+}
+
+function getOverrideConfig(
+  configType: "eslintrc" | "flat",
+  options: LintEngineOptions
+): Record<string, unknown> | undefined {
+  const overrideConfig = withoutUndefined({
+    ...(configType === "flat"
+      ? {
+          languageOptions: options.parserOptions && {
+            parserOptions: options.parserOptions
+          }
+        }
+      : { parserOptions: options.parserOptions }),
+    rules: getDisabledRulesConfig(options)
+  });
+  return Object.keys(overrideConfig).length > 0 ? overrideConfig : undefined;
+}
+
+function getDisabledRulesConfig(
+  options: LintEngineOptions
+): { [ruleId: string]: "off" } | undefined {
+  if (!options.disabledRules || options.disabledRules.length === 0) {
+    return undefined;
+  }
+  const rules: { [ruleId: string]: "off" } = {};
+  for (const ruleId of options.disabledRules) {
+    rules[ruleId] = "off";
+  }
+  return rules;
+}
+
+/**
+ * Convert the results of `ESLint#lintText` to a `CLIEngine` report
+ */
+export function toLintReport(
+  results: Array<
+    eslint.CLIEngine.LintResult & {
+      usedDeprecatedRules?: eslint.CLIEngine.DeprecatedRuleUse[];
+    }
+  >
+): eslint.CLIEngine.LintReport {
+  const report: eslint.CLIEngine.LintReport = {
+    results,
+    errorCount: 0,
+    warningCount: 0,
+    fixableErrorCount: 0,
+    fixableWarningCount: 0,
+    usedDeprecatedRules: []
+  };
+  for (const result of results) {
+    report.errorCount += result.errorCount;
+    report.warningCount += result.warningCount;
+    report.fixableErrorCount += result.fixableErrorCount;
+    report.fixableWarningCount += result.fixableWarningCount;
+    for (const deprecated of result.usedDeprecatedRules || []) {
+      if (
+        !report.usedDeprecatedRules.some((x) => x.ruleId === deprecated.ruleId)
+      ) {
+        report.usedDeprecatedRules.push(deprecated);
+      }
+    }
+  }
+  return report;
+}
+
+/**
+ * The ids of the rules that reported problems
+ */
+function getRuleIds(results: eslint.CLIEngine.LintResult[]): string[] {
+  const ruleIds: string[] = [];
+  for (const result of results) {
+    for (const message of result.messages) {
+      if (message.ruleId && ruleIds.indexOf(message.ruleId) === -1) {
+        ruleIds.push(message.ruleId);
+      }
+    }
+  }
+  return ruleIds;
+}
+
+/**
+ * Collect the metadata of the rules that reported problems, keeping only the
+ * fields of `RuleMetadata` so that it can be sent from a worker cheaply
+ */
+function pickRulesMeta(
+  ruleIds: string[],
+  getMeta: (ruleId: string) => eslint.Rule.RuleMetaData | undefined
+): { [ruleId: string]: RuleMetadata } {
+  const rulesMeta: { [ruleId: string]: RuleMetadata } = {};
+  for (const ruleId of ruleIds) {
+    const meta = getMeta(ruleId);
+    if (meta) {
+      rulesMeta[ruleId] = withoutUndefined({
+        type: meta.type,
+        docs:
+          meta.docs &&
+          withoutUndefined({
+            description: meta.docs.description,
+            // removed in eslint 8, some plugins set it to an empty string
+            category: meta.docs.category || undefined,
+            url: meta.docs.url,
+            requiresTypeChecking: (meta.docs as {
+              requiresTypeChecking?: boolean;
+            }).requiresTypeChecking
+          }),
+        fixable: meta.fixable,
+        // added in eslint 7.29
+        hasSuggestions: (meta as { hasSuggestions?: boolean }).hasSuggestions,
+        deprecated: meta.deprecated
+      });
+    }
+  }
+  return rulesMeta;
+}
+
+async function lintWithTimer(
+  lint: () => Promise<eslint.CLIEngine.LintReport>,
+  options: LintEngineOptions,
+  ruleTimer: RuleTimer | undefined
+): Promise<LintTextResult> {
+  if (!ruleTimer) {
+    return { report: await lint() };
+  }
+  if (!options.timeRules) {
+    return { report: await ruleTimer.run(lint) };
+  }
+  const { result, ruleTimes } = await ruleTimer.time(lint);
+  return { report: result, ruleTimes };
+}
+
+// eslint validates its options and rejects explicit undefined values
+function withoutUndefined<T extends object>(options: T): Partial<T> {
+  const result: Partial<T> = {};
+  for (const key of Object.keys(options) as Array<keyof T>) {
+    if (options[key] !== undefined) {
+      result[key] = options[key];
+    }
+  }
+  return result;
+}
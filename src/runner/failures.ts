@@ -94,3 +94,164 @@ export function getNonOverlappingReplacements(
   }
   return nonOverlapping;
 }
+
+/**
+ * Get the smallest replacements that change `original` into `fixed`. The
+ * lines are compared first, each changed block of lines is then trimmed to
+ * the characters that differ.
+ */
+export function getMinimalReplacements(
+  original: string,
+  fixed: string
+): eslint.Rule.Fix[] {
+  const originalLines = splitLines(original);
+  const fixedLines = splitLines(fixed);
+  const originalOffsets = getLineOffsets(originalLines);
+  const fixedOffsets = getLineOffsets(fixedLines);
+
+  const replacements: eslint.Rule.Fix[] = [];
+  for (const [start, end, fixedStart, fixedEnd] of diffLines(
+    originalLines,
+    fixedLines
+  )) {
+    const replacement = getTrimmedReplacement(
+      original,
+      originalOffsets[start],
+      originalOffsets[end],
+      fixed.slice(fixedOffsets[fixedStart], fixedOffsets[fixedEnd])
+    );
+    if (replacement) {
+      replacements.push(replacement);
+    }
+  }
+  return replacements;
+}
+
+// the edit distance after which the lines are replaced as a single block
+const maxLineEdits = 1000;
+
+/**
+ * Diff the lines with the algorithm of Myers, returns the changed blocks as
+ * `[start, end, fixedStart, fixedEnd]` line indexes
+ */
+function diffLines(
+  a: ReadonlyArray<string>,
+  b: ReadonlyArray<string>
+): Array<[number, number, number, number]> {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // the furthest reaching paths before each edit, indexed by k + d
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= n + m && d <= maxLineEdits && !found; ++d) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        ++x;
+        ++y;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) {
+    return [[0, n, 0, m]];
+  }
+
+  // walk back the path, collecting the lines that are kept
+  const matches: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; --d) {
+    const previous = trace[d];
+    const k = x - y;
+    let previousX = 0;
+    let previousY = 0;
+    if (d > 0) {
+      const previousK =
+        k === -d || (k !== d && previous[k - 1 + d] < previous[k + 1 + d])
+          ? k + 1
+          : k - 1;
+      previousX = previous[previousK + d];
+      previousY = previousX - previousK;
+    }
+    while (x > previousX && y > previousY) {
+      --x;
+      --y;
+      matches.push([x, y]);
+    }
+    x = previousX;
+    y = previousY;
+  }
+  matches.reverse();
+  matches.push([n, m]);
+
+  const changes: Array<[number, number, number, number]> = [];
+  let start = 0;
+  let fixedStart = 0;
+  for (const [end, fixedEnd] of matches) {
+    if (end > start || fixedEnd > fixedStart) {
+      changes.push([start, end, fixedStart, fixedEnd]);
+    }
+    start = end + 1;
+    fixedStart = fixedEnd + 1;
+  }
+  return changes;
+}
+
+function getTrimmedReplacement(
+  original: string,
+  start: number,
+  end: number,
+  text: string
+): eslint.Rule.Fix | undefined {
+  let prefix = 0;
+  while (
+    prefix < end - start &&
+    prefix < text.length &&
+    original[start + prefix] === text[prefix]
+  ) {
+    ++prefix;
+  }
+  let suffix = 0;
+  while (
+    suffix < end - start - prefix &&
+    suffix < text.length - prefix &&
+    original[end - suffix - 1] === text[text.length - suffix - 1]
+  ) {
+    ++suffix;
+  }
+  if (prefix === end - start && prefix === text.length) {
+    return undefined;
+  }
+  return {
+    range: [start + prefix, end - suffix],
+    text: text.slice(prefix, text.length - suffix)
+  };
+}
+
+/**
+ * Split the text into lines that keep their line terminator
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function getLineOffsets(lines: ReadonlyArray<string>): number[] {
+  const offsets = [0];
+  for (const line of lines) {
+    offsets.push(offsets[offsets.length - 1] + line.length);
+  }
+  return offsets;
+}
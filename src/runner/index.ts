@@ -2,10 +2,37 @@ import * as cp from 'child_process'
 import * as eslint from 'eslint' // this is a dev dependency only
 import * as fs from 'fs'
 import * as minimatch from 'minimatch'
-import { delimiter, dirname, relative } from 'path'
+import { basename, delimiter, dirname, extname, join, relative } from 'path';
 import * as typescript from 'typescript' // this is a dev dependency only
 import * as server from 'vscode-languageserver'
 
+import {
+  ConfigCascade,
+  ConfigCascadeOptions,
+  findFlatConfigFile,
+  findPackageRoot,
+  getConfigCascade,
+  isFlatConfigFile
+} from './configFiles';
+import { getMinimalReplacements } from './failures';
+import {
+  createLintEngine,
+  EsLintLibrary,
+  LintEngine,
+  LintEngineOptions,
+  loadEsLintLibrary,
+  RuleMetadata,
+  RuleTimes,
+  supportsFlatConfig
+} from './engine';
+import {
+  getElapsedMs,
+  isLogLevelEnabled,
+  LogEntry,
+  LogFields,
+  LogLevel,
+  TraceLevel
+} from './log';
 import { MruCache } from './mruCache'
 
 export type PackageManager = "npm" | "pnpm" | "yarn";
@@ -36,17 +63,214 @@ export interface RunConfiguration {
   readonly validateWithDefaultConfig?: boolean;
   readonly nodePath?: string;
   readonly packageManager?: PackageManager;
-  readonly traceLevel?: "verbose" | "normal";
+  /**
+   * Only trace entries at least as important as this level
+   */
+  readonly traceLevel?: TraceLevel;
   readonly workspaceFolderPath?: string;
+  readonly rulePaths?: string[];
+  readonly resolvePluginsRelativeTo?: string;
+  /**
+   * Only files with these extensions are linted
+   */
+  readonly extensions?: string[];
+  readonly ignorePath?: string;
+  /**
+   * tsconfig.json of the TypeScript project, used as `parserOptions.project`
+   * when the eslint configuration does not set it
+   */
+  readonly projectConfigFile?: string;
+  /**
+   * Instead of reporting problems, compute the replacements that fix the
+   * auto-fixable problems the options select like `eslint --fix` does
+   */
+  readonly fixAll?: FixAllOptions;
+  /**
+   * Rules that are turned off for the file regardless of the configuration
+   */
+  readonly disabledRules?: string[];
+  /**
+   * Linting that takes longer is reported with `typeAwareRules`
+   */
+  readonly maxLintDurationMs?: number;
+}
+
+/**
+ * Selects the problems fixed by a fix all, all auto-fixable problems of the
+ * file when no option is set
+ */
+export interface FixAllOptions {
+  readonly ruleId?: string;
+  readonly fixTypes?: Array<"problem" | "suggestion" | "layout">;
+  /**
+   * Only fix the problems that start on these lines, 1-based. Fixes of
+   * earlier passes may move problems to other lines.
+   */
+  readonly lines?: { readonly start: number, readonly end: number };
+}
+
+/**
+ * Checked before and after linting, a cancelled lint rejects with a
+ * `LintCancelledError`
+ */
+export interface CancellationToken {
+  isCancellationRequested(): boolean;
+}
+
+export class LintCancelledError extends Error {
+  public constructor(filePath: string) {
+    super(`Linting '${filePath}' was cancelled`);
+  }
+}
+
+/**
+ * Milliseconds spent in the steps of linting a file
+ */
+export interface LintTimings {
+  /**
+   * Resolving and loading eslint
+   */
+  readonly resolveMs: number;
+  /**
+   * Calculating the configuration of the file
+   */
+  readonly configMs: number;
+  readonly lintMs: number;
+  /**
+   * Time spent in every rule, undefined if eslint can not time rules
+   */
+  readonly ruleTimes?: RuleTimes;
 }
 
 export interface RunResult {
   readonly lintResult: eslint.CLIEngine.LintReport;
   readonly warnings: string[];
   readonly workspaceFolderPath?: string;
-  readonly configFilePath?: string;
+  /**
+   * The root of the package of the file, eslint is resolved from and run in
+   * this directory
+   */
+  readonly packageRoot?: string;
+  /**
+   * Config files, shared configs and ignore files that contributed to the
+   * configuration of the file
+   */
+  readonly configFilePaths?: string[];
+  /**
+   * Directories in which creating a config file changes the configuration
+   */
+  readonly configDirectories?: string[];
+  /**
+   * Metadata of the rules that reported problems
+   */
+  readonly rulesMeta?: { readonly [ruleId: string]: RuleMetadata };
+  /**
+   * Replacements that fix the problems selected by `fixAll` like
+   * `eslint --fix` does, relative to the linted contents
+   */
+  readonly fixAllReplacements?: eslint.Rule.Fix[];
+  /**
+   * Undefined if the file was not linted
+   */
+  readonly timings?: LintTimings;
+  /**
+   * The enabled rules that require type information, only set when linting
+   * took longer than `maxLintDurationMs`
+   */
+  readonly typeAwareRules?: string[];
+  /**
+   * Whether the program that was linted was given to the parser, only set
+   * when linting a program with @typescript-eslint/parser. Older versions of
+   * the parser do not support `parserOptions.programs`.
+   */
+  readonly programShared?: boolean;
+}
+
+/**
+ * How eslint was resolved for the root of a package
+ */
+export interface EsLintResolution {
+  /**
+   * Empty if eslint could not be resolved
+   */
+  readonly eslintPath: string;
+  /**
+   * Resolved from the package, from the `nodePath` setting, or from the
+   * global packages of `globalPackageManager`
+   */
+  readonly resolvedFrom: "local" | "nodePath" | "global";
+  readonly globalPackageManager?: PackageManager;
+  /**
+   * Problems with the settings used to resolve eslint
+   */
+  readonly warnings: string[];
+}
+
+/**
+ * How eslint is resolved and configured for a file, and why the file is not
+ * linted
+ */
+export interface EsLintDiagnosis {
+  readonly filePath: string;
+  readonly workspaceFolderPath?: string;
+  readonly packageRoot: string;
+  readonly resolution: EsLintResolution;
+  /**
+   * Undefined if eslint could not be loaded
+   */
+  readonly eslint?: {
+    readonly version: string;
+    readonly api: LintEngine["api"];
+    readonly configType: LintEngine["configType"];
+  };
+  readonly configFilePaths: string[];
+  /**
+   * False if there is no eslint configuration for the file
+   */
+  readonly hasConfiguration: boolean;
+  readonly parser?: string;
+  readonly plugins: string[];
+  /**
+   * Why the plugin settings exclude the file from linting
+   */
+  readonly excluded?: string;
+  /**
+   * Why eslint ignores the file
+   */
+  readonly ignored?: string;
+  readonly warnings: string[];
 }
 
+interface ResolvedLibrary {
+  readonly resolution: EsLintResolution;
+  load(): EsLintLibrary | undefined;
+}
+
+/**
+ * The first version of @typescript-eslint/parser that parses with the
+ * programs of `parserOptions.programs`
+ */
+const minimumProgramsParserVersion = [5, 3, 0];
+
+/**
+ * A parser of a flat config, eslintrc configurations name the parser module
+ */
+interface ParserObject {
+  readonly meta?: { readonly name?: string, readonly version?: string };
+}
+
+/**
+ * A configuration calculated for a file, flat configs set the parser in the
+ * language options
+ */
+type FileConfig = eslint.Linter.Config & {
+  readonly languageOptions?: {
+    readonly parser?: string | ParserObject;
+    readonly parserOptions?: eslint.Linter.ParserOptions;
+  };
+  readonly plugins?: unknown;
+};
+
 const emptyLintResult: eslint.CLIEngine.LintReport = {
   errorCount: 0,
   warningCount: 0,
@@ -56,19 +280,36 @@ const emptyLintResult: eslint.CLIEngine.LintReport = {
   usedDeprecatedRules: [],
 };
 
+// an always empty file
+const nullDevice = process.platform === "win32" ? "\\\\.\\nul" : "/dev/null";
+
 const emptyResult: RunResult = {
   lintResult: emptyLintResult,
   warnings: [],
 };
 
+/**
+ * Configuration used by `validateWithDefaultConfig` for files without any
+ * eslint configuration
+ */
+function getDefaultConfig(filePath: string): eslint.Linter.Config {
+  return {
+    extends: ["eslint:recommended"],
+    env: { es6: true },
+    parserOptions: { ecmaVersion: 2018, sourceType: "module" },
+    parser: isJsDocument(filePath) ? undefined : "@typescript-eslint/parser"
+  };
+}
+
 export class EsLintRunner {
   private readonly eslintPath2Library = new Map<
     string,
-    typeof eslint | undefined
+    EsLintLibrary | undefined
   >();
-  private readonly document2LibraryCache = new MruCache<
-    () => typeof eslint | undefined
-  >(100);
+  // package root -> eslint library resolved from it
+  private readonly packageRoot2LibraryCache = new MruCache<ResolvedLibrary>(
+    100
+  );
 
   // map stores undefined values to represent failed resolutions
   private readonly globalPackageManagerPath = new Map<
@@ -76,29 +317,57 @@ export class EsLintRunner {
     string | undefined
   >();
 
-  constructor(private readonly trace: (data: string) => void) {}
+  // engines keep the configurations they loaded until `clearCaches`
+  private engineCaches = new WeakMap<EsLintLibrary, MruCache<LintEngine>>();
+  // parser module -> version of its package
+  private readonly parserVersions = new Map<string, string | undefined>();
+  // directory and cascade options -> config cascade, saves reading the
+  // config files on every lint until `clearCaches`
+  private readonly configCascades = new MruCache<ConfigCascade>(100);
+  // directory and workspace folder -> package root of the files in it
+  private readonly packageRoots = new MruCache<string>(100);
 
-  public runEsLint(
+  private traceLevel: RunConfiguration["traceLevel"];
+
+  constructor(private readonly trace: (entry: LogEntry) => void) {}
+
+  public async runEsLint(
     filePath: string,
     contents: string | typescript.Program,
-    configuration: RunConfiguration
-  ): RunResult {
+    configuration: RunConfiguration,
+    cancellationToken?: CancellationToken
+  ): Promise<RunResult> {
+    this.traceLevel = configuration.traceLevel;
     this.traceMethod("runEsLint", "start");
+    const start = process.hrtime();
+
+    const roots = this.getRoots(filePath, contents, configuration);
+    const { packageRoot } = roots;
 
     const warnings: string[] = [];
-    if (!this.document2LibraryCache.has(filePath)) {
-      this.loadLibrary(filePath, configuration, warnings);
+    let resolved = this.packageRoot2LibraryCache.get(packageRoot);
+    if (!resolved) {
+      resolved = this.loadLibrary(packageRoot, configuration);
+      warnings.push(...resolved.resolution.warnings);
     }
     this.traceMethod("runEsLint", "Loaded eslint library");
 
-    if (!this.document2LibraryCache.has(filePath)) {
-      return emptyResult;
-    }
-
-    const library = this.document2LibraryCache.get(filePath)!();
+    const library = resolved.load();
     if (!library) {
+      const flatConfigFile =
+        configuration.configFile && isFlatConfigFile(configuration.configFile)
+          ? configuration.configFile
+          : findFlatConfigFile(filePath);
+      const cascade = this.getConfigCascade(filePath, {
+        ...configuration,
+        cwd: packageRoot,
+        workspaceFolderPath: roots.workspaceFolderPath,
+        flatConfigFile
+      });
       return {
         lintResult: emptyLintResult,
+        configFilePaths: cascade.files,
+        configDirectories: cascade.directories,
         warnings: [
           getInstallFailureMessage(
             filePath,
@@ -108,73 +377,261 @@ export class EsLintRunner {
       };
     }
 
-    this.traceMethod("runEsLint", "About to validate " + filePath);
-    return this.doRun(filePath, contents, library, configuration, warnings);
+    this.traceMethod("runEsLint", "About to validate", { file: filePath });
+    return this.doRun(
+      filePath,
+      contents,
+      library,
+      configuration,
+      warnings,
+      roots,
+      getElapsedMs(start),
+      cancellationToken
+    );
+  }
+
+  /**
+   * Describe how eslint is resolved and configured for a file and whether it
+   * is linted, without linting it
+   */
+  public async diagnose(
+    filePath: string,
+    configuration: RunConfiguration
+  ): Promise<EsLintDiagnosis> {
+    this.traceLevel = configuration.traceLevel;
+    const roots = this.getRoots(filePath, "", configuration);
+    const resolved =
+      this.packageRoot2LibraryCache.get(roots.packageRoot) ||
+      this.loadLibrary(roots.packageRoot, configuration);
+    const warnings = [...resolved.resolution.warnings];
+    const diagnosis = {
+      filePath,
+      ...roots,
+      resolution: resolved.resolution,
+      excluded:
+        this.getExclusionReason(
+          configuration,
+          filePath,
+          roots.workspaceFolderPath
+        ) ||
+        (isJsDocument(filePath) && !configuration.jsEnable
+          ? "JavaScript files are not linted unless 'jsEnable' is set"
+          : undefined) ||
+        (!hasExtension(filePath, configuration.extensions)
+          ? `the extension is not one of ${configuration.extensions}`
+          : undefined),
+      hasConfiguration: false,
+      plugins: [],
+      warnings
+    };
+
+    const library = resolved.load();
+    if (!library) {
+      warnings.push(
+        getInstallFailureMessage(
+          filePath,
+          configuration.packageManager || "npm"
+        )
+      );
+      const cascade = this.getConfigCascade(filePath, {
+        ...configuration,
+        cwd: roots.packageRoot,
+        workspaceFolderPath: roots.workspaceFolderPath,
+        flatConfigFile:
+          configuration.configFile && isFlatConfigFile(configuration.configFile)
+            ? configuration.configFile
+            : findFlatConfigFile(filePath)
+      });
+      return { ...diagnosis, configFilePaths: cascade.files };
+    }
+
+    const engineOptions = this.getEngineOptions(
+      configuration,
+      roots.packageRoot,
+      this.getFlatConfigFile(filePath, library, configuration, warnings)
+    );
+    const cascade = this.getConfigCascade(filePath, {
+      ...engineOptions,
+      workspaceFolderPath: roots.workspaceFolderPath
+    });
+    try {
+      const engine = this.getEngine(library, engineOptions);
+      const fileConfig = await this.calculateConfigForFile(engine, filePath);
+      const ignored = (await engine.isPathIgnored(filePath))
+        ? await this.getIgnoreReason(
+            library,
+            engineOptions,
+            filePath,
+            cascade.files
+          )
+        : await this.getWorkspaceIgnoreReason(
+            library,
+            engineOptions,
+            filePath,
+            cascade,
+            roots.workspaceFolderPath
+          );
+      return {
+        ...diagnosis,
+        eslint: {
+          version: engine.version,
+          api: engine.api,
+          configType: engine.configType
+        },
+        configFilePaths: cascade.files,
+        hasConfiguration: fileConfig !== undefined,
+        parser: fileConfig && getParserName(fileConfig),
+        plugins: fileConfig ? getPluginNames(fileConfig) : [],
+        ignored
+      };
+    } catch (e) {
+      warnings.push(`Could not load the eslint configuration: ${e.message}`);
+      return { ...diagnosis, configFilePaths: cascade.files };
+    }
+  }
+
+  /**
+   * Forget the loaded eslint configurations, so that the next lints read the
+   * config files again
+   */
+  public clearCaches(): void {
+    this.traceMethod("clearCaches", "Clearing the configuration caches");
+    this.engineCaches = new WeakMap();
+    this.parserVersions.clear();
+    this.configCascades.clear();
+    this.packageRoots.clear();
   }
 
-  private traceMethod(method: string, message: string) {
-    this.trace(`(${method}) ${message}`);
+  private getConfigCascade(
+    filePath: string,
+    options: ConfigCascadeOptions
+  ): ConfigCascade {
+    const cascadeOptions: ConfigCascadeOptions = {
+      cwd: options.cwd,
+      workspaceFolderPath: options.workspaceFolderPath,
+      configFile: options.configFile,
+      useEslintrc: options.useEslintrc,
+      ignorePath: options.ignorePath,
+      flatConfigFile: options.flatConfigFile
+    };
+    // the cascade only depends on the directory of the file
+    const key = `${dirname(filePath)}|${JSON.stringify(cascadeOptions)}`;
+    let cascade = this.configCascades.get(key);
+    if (!cascade) {
+      cascade = getConfigCascade(filePath, cascadeOptions);
+      this.configCascades.set(key, cascade);
+    }
+    return cascade;
   }
 
-  private loadLibrary(
+  private getRoots(
     filePath: string,
-    configuration: RunConfiguration,
-    warningsOutput: string[]
-  ): void {
-    this.traceMethod("loadLibrary", `trying to load ${filePath}`);
+    contents: string | typescript.Program,
+    configuration: RunConfiguration
+  ): { workspaceFolderPath?: string, packageRoot: string } {
+    let workspaceFolderPath = configuration.workspaceFolderPath;
+    if (!workspaceFolderPath && typeof contents === "object") {
+      workspaceFolderPath = contents.getCurrentDirectory();
+    }
+    const key = `${dirname(filePath)}|${workspaceFolderPath}`;
+    let packageRoot = this.packageRoots.get(key);
+    if (!packageRoot) {
+      packageRoot =
+        findPackageRoot(filePath, workspaceFolderPath) || dirname(filePath);
+      this.packageRoots.set(key, packageRoot);
+    }
+    this.traceMethod("getRoots", `Package root: ${packageRoot}`, {
+      file: filePath
+    });
+    return { workspaceFolderPath, packageRoot };
+  }
+
+  private traceMethod(
+    method: string,
+    message: string,
+    fields?: LogFields,
+    level: LogLevel = "verbose"
+  ) {
+    if (!isLogLevelEnabled(this.traceLevel, level)) {
+      return;
+    }
+    this.trace({ level, message: `(${method}) ${message}`, fields });
+  }
+
+  /**
+   * Resolve eslint from the root of a package, so that every package of a
+   * monorepo can use its own eslint install
+   */
+  private loadLibrary(
+    packageRoot: string,
+    configuration: RunConfiguration
+  ): ResolvedLibrary {
+    this.traceMethod("loadLibrary", `trying to load eslint`, {
+      packageRoot
+    });
     const getGlobalPath = () =>
       this.getGlobalPackageManagerPath(configuration.packageManager);
-    const directory = dirname(filePath);
+    const directory = packageRoot;
 
+    const warnings: string[] = [];
     let np: string | undefined;
     if (configuration && configuration.nodePath) {
       const exists = fs.existsSync(configuration.nodePath);
       if (exists) {
         np = configuration.nodePath;
       } else {
-        warningsOutput.push(
+        warnings.push(
           `The setting 'eslint.nodePath' refers to '${configuration.nodePath}', but this path does not exist. The setting will be ignored.`
         );
       }
     }
 
     let esLintPath: string;
-
-    if (np) {
-      try {
-        esLintPath = this.resolveEsLint(np, np!);
-        if (esLintPath.length === 0) {
-          esLintPath = this.resolveEsLint(getGlobalPath(), directory);
-        }
-      } catch {
-        esLintPath = this.resolveEsLint(getGlobalPath(), directory);
-      }
-    } else {
-      try {
-        esLintPath = this.resolveEsLint(undefined, directory);
-        if (esLintPath.length === 0) {
-          esLintPath = this.resolveEsLint(getGlobalPath(), directory);
-        }
-      } catch {
-        esLintPath = this.resolveEsLint(getGlobalPath(), directory);
-      }
+    let resolvedFrom: EsLintResolution["resolvedFrom"] = np
+      ? "nodePath"
+      : "local";
+    try {
+      esLintPath = this.resolveEsLint(np, np || directory);
+    } catch {
+      esLintPath = "";
+    }
+    if (esLintPath.length === 0) {
+      resolvedFrom = "global";
+      esLintPath = this.resolveEsLint(getGlobalPath(), directory);
     }
 
-    this.traceMethod("loadLibrary", `Resolved eslint to ${esLintPath}`);
+    this.traceMethod("loadLibrary", `Resolved eslint`, {
+      packageRoot,
+      eslintPath: esLintPath,
+      resolvedFrom
+    });
 
-    this.document2LibraryCache.set(filePath, () => {
-      let library;
-      if (!this.eslintPath2Library.has(esLintPath)) {
-        try {
-          library = require(esLintPath);
-        } catch (e) {
-          this.eslintPath2Library.set(esLintPath, undefined);
-          return;
+    const resolved: ResolvedLibrary = {
+      resolution: {
+        eslintPath: esLintPath,
+        resolvedFrom,
+        globalPackageManager:
+          resolvedFrom === "global"
+            ? configuration.packageManager || "npm"
+            : undefined,
+        warnings
+      },
+      load: () => {
+        let library;
+        if (!this.eslintPath2Library.has(esLintPath)) {
+          try {
+            library = loadEsLintLibrary(esLintPath);
+          } catch (e) {
+            this.eslintPath2Library.set(esLintPath, undefined);
+            return;
+          }
+          this.eslintPath2Library.set(esLintPath, library);
         }
-        this.eslintPath2Library.set(esLintPath, library);
+        return this.eslintPath2Library.get(esLintPath);
       }
-      return this.eslintPath2Library.get(esLintPath);
-    });
+    };
+    this.packageRoot2LibraryCache.set(packageRoot, resolved);
+    return resolved;
   }
 
   private getGlobalPackageManagerPath(
@@ -186,11 +643,13 @@ export class EsLintRunner {
     );
 
     if (!this.globalPackageManagerPath.has(packageManager)) {
+      const trace = (message: string) =>
+        this.traceMethod("getGlobalPackageManagerPath", message);
       let path: string | undefined;
       if (packageManager === "npm") {
-        path = server.Files.resolveGlobalNodePath(this.trace);
+        path = server.Files.resolveGlobalNodePath(trace);
       } else if (packageManager === "yarn") {
-        path = server.Files.resolveGlobalYarnPath(this.trace);
+        path = server.Files.resolveGlobalYarnPath(trace);
       } else if (packageManager === "pnpm") {
         path = cp.execSync("pnpm root -g").toString().trim();
       }
@@ -203,100 +662,560 @@ export class EsLintRunner {
     return this.globalPackageManagerPath.get(packageManager);
   }
 
-  private doRun(
+  private async doRun(
     filePath: string,
     contents: string | typescript.Program,
-    library: typeof import("eslint"),
+    library: EsLintLibrary,
     configuration: RunConfiguration,
-    warnings: string[]
-  ): RunResult {
-    this.traceMethod("doRun", `starting validation for ${filePath}`);
+    warnings: string[],
+    roots: { workspaceFolderPath?: string, packageRoot: string },
+    resolveMs: number,
+    cancellationToken: CancellationToken | undefined
+  ): Promise<RunResult> {
+    this.traceMethod("doRun", `starting validation`, { file: filePath });
 
-    let cwd = configuration.workspaceFolderPath;
-    if (!cwd && typeof contents === "object") {
-      cwd = contents.getCurrentDirectory();
+    // the exclude patterns of the settings are relative to the workspace
+    const exclusionReason = this.getExclusionReason(
+      configuration,
+      filePath,
+      roots.workspaceFolderPath
+    );
+    if (exclusionReason) {
+      this.traceMethod(
+        "doRun",
+        `No linting: file is excluded, ${exclusionReason}`,
+        { file: filePath }
+      );
+      return emptyResult;
     }
 
-    if (this.fileIsExcluded(configuration, filePath, cwd)) {
-      this.traceMethod("doRun", `No linting: file ${filePath} is excluded`);
+    if (isJsDocument(filePath) && !configuration.jsEnable) {
+      this.traceMethod(
+        "doRun",
+        `No linting: a JS document, but js linting is disabled`
+      );
+      return emptyResult;
+    }
+    if (!hasExtension(filePath, configuration.extensions)) {
+      this.traceMethod(
+        "doRun",
+        `No linting: extension is not one of ${configuration.extensions}`
+      );
       return emptyResult;
     }
+    let finalContents =
+      typeof contents === "string"
+        ? contents
+        : contents.getSourceFile(filePath)?.getFullText();
 
-    let cwdToRestore: string | undefined;
-    if (cwd) {
-      this.traceMethod("doRun", `Changed directory to ${cwd}`);
-      cwdToRestore = process.cwd();
-      process.chdir(cwd);
+    if (!finalContents) {
+      this.traceMethod("doRun", `No linting: empty file`);
+      return emptyResult;
     }
 
-    try {
-      if (isJsDocument(filePath) && !configuration.jsEnable) {
-        this.traceMethod(
-          "doRun",
-          `No linting: a JS document, but js linting is disabled`
-        );
-        return emptyResult;
-      }
-      let finalContents =
-        typeof contents === "string"
-          ? contents
-          : contents.getSourceFile(filePath)?.getFullText();
-
-      if (!finalContents) {
-        this.traceMethod("doRun", `No linting: empty file`);
-        return emptyResult;
-      }
+    const configStart = process.hrtime();
+    const flatConfigFile = this.getFlatConfigFile(
+      filePath,
+      library,
+      configuration,
+      warnings
+    );
 
-      let result: eslint.CLIEngine.LintReport;
-      const options: eslint.Linter.FixOptions = {
-        filename: filePath,
-        fix: false,
-        allowInlineConfig: configuration.allowInlineConfig || undefined,
-        reportUnusedDisableDirectives:
-          configuration.reportUnusedDisableDirectives || undefined,
-      };
+    const cwd = roots.packageRoot;
+    let engineOptions: LintEngineOptions = {
+      ...this.getEngineOptions(configuration, cwd, flatConfigFile),
+      timeRules: true
+    };
+    let engine = this.getEngine(library, engineOptions);
 
-      // eslint writes warnings using console.warn, capture these warnings and send them to the client
-      const originalConsoleWarn = console.warn;
-      const captureWarnings = (message?: any) => {
-        warnings.push(message);
-        originalConsoleWarn(message);
-      };
-      console.warn = captureWarnings;
+    const cascade = this.getConfigCascade(filePath, {
+      ...engineOptions,
+      cwd,
+      workspaceFolderPath: roots.workspaceFolderPath
+    });
+    this.traceMethod(
+      "doRun",
+      `Configuration files: ${cascade.files.join(", ") || "none"}`
+    );
+    const configPaths = {
+      configFilePaths: cascade.files,
+      configDirectories: cascade.directories
+    };
 
-      try {
-        // clean up if eslint crashes
-        const linter = new library.CLIEngine(options);
-        this.traceMethod("doRun", `Linting: start linting ${filePath}`);
-        result = linter.executeOnText(finalContents);
-        this.traceMethod("doRun", `Linting: ended linting`);
-      } finally {
-        console.warn = originalConsoleWarn;
+    let fileConfig = await this.calculateConfigForFile(engine, filePath);
+    if (!fileConfig) {
+      if (!configuration.validateWithDefaultConfig) {
+        this.traceMethod("doRun", `No linting: no eslint configuration found`, {
+          file: filePath
+        });
+        return { ...emptyResult, ...configPaths, warnings };
       }
+      this.traceMethod("doRun", `Using the default configuration`);
+      fileConfig = getDefaultConfig(filePath);
+      engineOptions = {
+        ...engineOptions,
+        useEslintrc: false,
+        baseConfig: fileConfig
+      };
+      engine = this.getEngine(library, engineOptions);
+    }
 
+    // eslint reports linting an ignored file as a warning, skip it silently
+    if (await engine.isPathIgnored(filePath)) {
+      this.traceMethod(
+        "doRun",
+        `No linting: file is ignored by ${await this.getIgnoreReason(
+          library,
+          engineOptions,
+          filePath,
+          cascade.files
+        )}`,
+        { file: filePath }
+      );
+      return { ...emptyResult, ...configPaths };
+    }
+    const workspaceIgnoreReason = await this.getWorkspaceIgnoreReason(
+      library,
+      engineOptions,
+      filePath,
+      cascade,
+      roots.workspaceFolderPath
+    );
+    if (workspaceIgnoreReason) {
+      this.traceMethod(
+        "doRun",
+        `No linting: file is ignored by ${workspaceIgnoreReason}`,
+        { file: filePath }
+      );
+      return { ...emptyResult, ...configPaths };
+    }
+
+    const parserOptions = this.getParserOptions(
+      fileConfig,
+      contents,
+      configuration,
+      cwd
+    );
+    if (parserOptions) {
+      engineOptions = { ...engineOptions, parserOptions };
+      engine = this.getEngine(library, engineOptions);
+    }
+
+    if (configuration.fixAll) {
       return {
-        lintResult: result,
+        lintResult: emptyLintResult,
         warnings,
         workspaceFolderPath: configuration.workspaceFolderPath,
+        packageRoot: cwd,
+        ...configPaths,
+        fixAllReplacements: await this.getFixAllReplacements(
+          library,
+          engineOptions,
+          contents,
+          finalContents,
+          filePath,
+          configuration.fixAll
+        )
       };
-    } finally {
-      if (typeof cwdToRestore === "string") {
-        process.chdir(cwdToRestore);
+    }
+
+    const configMs = getElapsedMs(configStart);
+
+    this.throwIfCancellationRequested(filePath, cancellationToken);
+    this.traceMethod(
+      "doRun",
+      `Linting: start linting using the ${engine.api} API of eslint ${engine.version} with ${engine.configType} configuration`,
+      { file: filePath }
+    );
+    const lintStart = process.hrtime();
+    const { report: result, ruleTimes } = await engine.lintText(
+      finalContents,
+      filePath
+    );
+    const lintMs = getElapsedMs(lintStart);
+    this.traceMethod("doRun", `Linting: ended linting`, {
+      file: filePath,
+      durationMs: lintMs,
+      errors: result.errorCount,
+      warnings: result.warningCount
+    });
+    this.throwIfCancellationRequested(filePath, cancellationToken);
+
+    let typeAwareRules: string[] | undefined;
+    if (
+      configuration.maxLintDurationMs !== undefined &&
+      lintMs > configuration.maxLintDurationMs
+    ) {
+      typeAwareRules = this.getTypeAwareRules(engine, fileConfig, filePath);
+    }
+
+    return {
+      lintResult: result,
+      warnings,
+      workspaceFolderPath: configuration.workspaceFolderPath,
+      packageRoot: cwd,
+      ...configPaths,
+      rulesMeta: engine.getRulesMeta(result.results),
+      timings: {
+        resolveMs,
+        configMs,
+        lintMs,
+        ruleTimes
+      },
+      typeAwareRules,
+      programShared:
+        typeof contents === "object" && usesTypeScriptParser(fileConfig)
+          ? parserOptions !== undefined && parserOptions.programs !== undefined
+          : undefined
+    };
+  }
+
+  /**
+   * Get an engine for the options, reusing the engine of earlier lints with
+   * the same options
+   */
+  private getEngine(
+    library: EsLintLibrary,
+    options: LintEngineOptions
+  ): LintEngine {
+    // the program given to the parser differs for every lint, and functions
+    // are not part of the key
+    if (
+      (options.parserOptions && options.parserOptions.programs) ||
+      typeof options.fix === "function"
+    ) {
+      return createLintEngine(library, options);
+    }
+    let cache = this.engineCaches.get(library);
+    if (!cache) {
+      cache = new MruCache<LintEngine>(20);
+      this.engineCaches.set(library, cache);
+    }
+    const key = JSON.stringify(options);
+    let engine = cache.get(key);
+    if (!engine) {
+      engine = createLintEngine(library, options);
+      cache.set(key, engine);
+    }
+    return engine;
+  }
+
+  private throwIfCancellationRequested(
+    filePath: string,
+    cancellationToken: CancellationToken | undefined
+  ): void {
+    if (cancellationToken && cancellationToken.isCancellationRequested()) {
+      this.traceMethod("doRun", `Linting cancelled`, { file: filePath });
+      throw new LintCancelledError(filePath);
+    }
+  }
+
+  /**
+   * Get the rules enabled for the file that require type information
+   */
+  private getTypeAwareRules(
+    engine: LintEngine,
+    config: eslint.Linter.Config,
+    filePath: string
+  ): string[] {
+    const rules = config.rules || {};
+    const ruleIds = Object.keys(rules).filter(
+      (ruleId) => !isRuleOff(rules[ruleId])
+    );
+    const rulesMeta = engine.getRulesMetaForRuleIds(filePath, ruleIds);
+    return ruleIds.filter((ruleId) => {
+      const docs = rulesMeta[ruleId] && rulesMeta[ruleId].docs;
+      return !!(docs && docs.requiresTypeChecking);
+    });
+  }
+
+  private getEngineOptions(
+    configuration: RunConfiguration,
+    packageRoot: string,
+    flatConfigFile: string | undefined
+  ): LintEngineOptions {
+    return {
+      // plugins, ignore files and relative paths of the configuration are
+      // resolved relative to the package instead of the process directory
+      cwd: packageRoot,
+      configFile: configuration.configFile,
+      useEslintrc: configuration.useEslintrc,
+      rulePaths: configuration.rulePaths,
+      resolvePluginsRelativeTo: configuration.resolvePluginsRelativeTo,
+      extensions: configuration.extensions,
+      ignorePath: configuration.ignorePath,
+      allowInlineConfig: configuration.allowInlineConfig,
+      reportUnusedDisableDirectives:
+        configuration.reportUnusedDisableDirectives,
+      flatConfigFile,
+      disabledRules: configuration.disabledRules
+    };
+  }
+
+  /**
+   * Let eslint fix the contents, relinting the fixed text until no more fixes
+   * apply, and convert the output to replacements of the original contents.
+   */
+  private async getFixAllReplacements(
+    library: EsLintLibrary,
+    engineOptions: LintEngineOptions,
+    contents: string | typescript.Program,
+    text: string,
+    filePath: string,
+    options: FixAllOptions
+  ): Promise<eslint.Rule.Fix[] | undefined> {
+    // fixed text can not be parsed with the program of the original contents
+    if (typeof contents !== "string") {
+      this.traceMethod(
+        "getFixAllReplacements",
+        `No fix all: the program of the language service is shared`
+      );
+      return undefined;
+    }
+
+    const { ruleId, lines } = options;
+    const { report: fixed } = await this.getEngine(library, {
+      ...engineOptions,
+      fix:
+        ruleId || lines
+          ? (message) =>
+              (!ruleId || message.ruleId === ruleId) &&
+              (!lines ||
+                (message.line >= lines.start && message.line <= lines.end))
+          : true,
+      fixTypes: options.fixTypes,
+      timeRules: false
+    }).lintText(text, filePath);
+    const output = fixed.results
+      .filter((x) => x.filePath === filePath)
+      .map((x) => x.output)[0];
+    return typeof output === "string"
+      ? getMinimalReplacements(text, output)
+      : undefined;
+  }
+
+  /**
+   * Calculate the configuration eslint uses for the file. Returns undefined
+   * when there is no configuration for the file.
+   */
+  private async calculateConfigForFile(
+    engine: LintEngine,
+    filePath: string
+  ): Promise<FileConfig | undefined> {
+    try {
+      return await engine.calculateConfigForFile(filePath);
+    } catch (e) {
+      if (/No ESLint configuration found/i.test(String(e.message))) {
+        return undefined;
+      }
+      // let linting report the problem
+      this.traceMethod(
+        "calculateConfigForFile",
+        `Could not calculate configuration: ${e.message}`,
+        { file: filePath },
+        "warn"
+      );
+      return {};
+    }
+  }
+
+  /**
+   * Get the parser options needed to give @typescript-eslint/parser the same
+   * view of the project as TypeScript. An existing program is shared with the
+   * parser, so that type aware rules do not need to create a second one.
+   */
+  private getParserOptions(
+    config: FileConfig,
+    contents: string | typescript.Program,
+    configuration: RunConfiguration,
+    cwd: string | undefined
+  ): Record<string, unknown> | undefined {
+    if (!usesTypeScriptParser(config)) {
+      return undefined;
+    }
+
+    const configured: eslint.Linter.ParserOptions =
+      (config.languageOptions && config.languageOptions.parserOptions) ||
+      config.parserOptions ||
+      {};
+    const parserOptions: Record<string, unknown> = {};
+    if (typeof contents === "object") {
+      const version = this.getParserVersion(config);
+      if (version && isVersionAtLeast(version, minimumProgramsParserVersion)) {
+        parserOptions.programs = [contents];
+      } else {
+        this.traceMethod(
+          "getParserOptions",
+          `Not sharing the program: @typescript-eslint/parser ${
+            version || "of unknown version"
+          } does not support parserOptions.programs`
+        );
       }
     }
+    if (!configured.project && configuration.projectConfigFile) {
+      parserOptions.project = configuration.projectConfigFile;
+    }
+    // the parser resolves relative projects against the process directory by default
+    if (!configured.tsconfigRootDir && cwd) {
+      parserOptions.tsconfigRootDir = cwd;
+    }
+
+    if (Object.keys(parserOptions).length === 0) {
+      return undefined;
+    }
+    this.traceMethod(
+      "getParserOptions",
+      `Overriding parser options: ${Object.keys(parserOptions).join(", ")}`
+    );
+    return parserOptions;
+  }
+
+  /**
+   * Get the version of the parser of a configuration from the package of the
+   * parser module, or from the metadata of a flat config parser
+   */
+  private getParserVersion(config: FileConfig): string | undefined {
+    const parser =
+      config.parser ||
+      (config.languageOptions && config.languageOptions.parser);
+    if (!parser) {
+      return undefined;
+    }
+    if (typeof parser !== "string") {
+      return parser.meta && parser.meta.version;
+    }
+    if (!this.parserVersions.has(parser)) {
+      this.parserVersions.set(parser, readPackageVersion(parser));
+    }
+    return this.parserVersions.get(parser);
   }
 
-  private fileIsExcluded(
+  /**
+   * Get the flat config file to lint with, eslintrc files are used when there
+   * is none or when the loaded eslint does not support flat config.
+   */
+  private getFlatConfigFile(
+    filePath: string,
+    library: EsLintLibrary,
+    configuration: RunConfiguration,
+    warnings: string[]
+  ): string | undefined {
+    // an explicitly configured eslintrc file wins over flat config files
+    if (
+      configuration.configFile &&
+      !isFlatConfigFile(configuration.configFile)
+    ) {
+      return undefined;
+    }
+    const flatConfigFile =
+      configuration.configFile || findFlatConfigFile(filePath);
+    if (!flatConfigFile) {
+      return undefined;
+    }
+
+    if (!supportsFlatConfig(library)) {
+      this.traceMethod(
+        "getFlatConfigFile",
+        `Found ${flatConfigFile} but the loaded eslint does not support flat config, using eslintrc`
+      );
+      if (configuration.configFile === flatConfigFile) {
+        warnings.push(
+          `The configured eslint config file '${flatConfigFile}' is a flat config file, which requires eslint 8.21 or later.`
+        );
+      }
+      return undefined;
+    }
+
+    this.traceMethod("getFlatConfigFile", `Using ${flatConfigFile}`);
+    return flatConfigFile;
+  }
+
+  /**
+   * Get the reason why the plugin settings exclude a file from linting,
+   * undefined if the file is not excluded
+   */
+  private getExclusionReason(
     settings: RunConfiguration,
     filePath: string,
     cwd: string | undefined
-  ): boolean {
+  ): string | undefined {
     if (settings.ignoreDefinitionFiles && filePath.endsWith(".d.ts")) {
-      return true;
+      return "definition files are ignored";
+    }
+    const pattern = settings.exclude.find((x) =>
+      testForExclusionPattern(filePath, x, cwd)
+    );
+    return pattern !== undefined
+      ? `it matches the 'exclude' pattern '${pattern}'`
+      : undefined;
+  }
+
+  /**
+   * Describe why eslint ignores a file. Ignore files are told apart from
+   * the `ignorePatterns` of the configuration by checking the file again
+   * with an empty ignore file.
+   */
+  private async getIgnoreReason(
+    library: EsLintLibrary,
+    engineOptions: LintEngineOptions,
+    filePath: string,
+    configFilePaths: string[]
+  ): Promise<string> {
+    if (engineOptions.flatConfigFile) {
+      return `the ignores of ${engineOptions.flatConfigFile}`;
     }
-    return settings.exclude.some((pattern) =>
-      testForExclusionPattern(filePath, pattern, cwd)
+    const ignoreFile = configFilePaths.find(
+      (x) =>
+        x === engineOptions.ignorePath ||
+        basename(x) === ".eslintignore" ||
+        (basename(x) === "package.json" &&
+          engineOptions.cwd !== undefined &&
+          dirname(x) === engineOptions.cwd)
     );
+    if (ignoreFile) {
+      try {
+        const withoutIgnoreFile = createLintEngine(library, {
+          ...engineOptions,
+          ignorePath: nullDevice
+        });
+        if (!(await withoutIgnoreFile.isPathIgnored(filePath))) {
+          return `the ignore file ${ignoreFile}`;
+        }
+      } catch (e) {
+        this.traceMethod(
+          "getIgnoreReason",
+          `Could not check the file without ignore file: ${e.message}`,
+          { file: filePath },
+          "warn"
+        );
+      }
+    }
+    return "the ignorePatterns of the configuration or the default ignore patterns of eslint";
+  }
+
+  /**
+   * Describe why the ignore file of the workspace folder ignores a file, if
+   * it does. eslint runs in the package root and only reads the ignore file
+   * there, so it is checked like eslint would when running in the workspace
+   * folder.
+   */
+  private async getWorkspaceIgnoreReason(
+    library: EsLintLibrary,
+    engineOptions: LintEngineOptions,
+    filePath: string,
+    cascade: ConfigCascade,
+    workspaceFolderPath: string | undefined
+  ): Promise<string | undefined> {
+    if (!cascade.workspaceIgnoreFile || !workspaceFolderPath) {
+      return undefined;
+    }
+    const workspaceEngine = this.getEngine(library, {
+      ...engineOptions,
+      cwd: workspaceFolderPath
+    });
+    return (await workspaceEngine.isPathIgnored(filePath))
+      ? `the ignore file ${cascade.workspaceIgnoreFile}`
+      : undefined;
   }
 
   private resolveEsLint(nodePath: string | undefined, cwd: string): string {
@@ -367,6 +1286,97 @@ function getInstallFailureMessage(
   ].join("\n");
 }
 
+function usesTypeScriptParser(config: FileConfig): boolean {
+  const parser =
+    config.parser || (config.languageOptions && config.languageOptions.parser);
+  if (typeof parser === "string") {
+    return /@typescript-eslint[\\/]parser/.test(parser);
+  }
+  const name = parser && parser.meta && parser.meta.name;
+  return typeof name === "string" && name.includes("typescript-eslint");
+}
+
+/**
+ * Read the version of the package a module belongs to
+ */
+function readPackageVersion(modulePath: string): string | undefined {
+  let directory = dirname(modulePath);
+  for (;;) {
+    try {
+      const packageJson = JSON.parse(
+        fs.readFileSync(join(directory, "package.json"), "utf8")
+      );
+      // nested package.json files may only set the module type
+      if (packageJson && packageJson.name) {
+        return typeof packageJson.version === "string"
+          ? packageJson.version
+          : undefined;
+      }
+    } catch {
+      // not the root of the package
+    }
+    const parent = dirname(directory);
+    if (parent === directory) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+function isVersionAtLeast(version: string, minimum: number[]): boolean {
+  const parts = version.split(".").map((x) => parseInt(x, 10) || 0);
+  for (let i = 0; i < minimum.length; ++i) {
+    const part = parts[i] || 0;
+    if (part !== minimum[i]) {
+      return part > minimum[i];
+    }
+  }
+  return true;
+}
+
+function isRuleOff(entry: eslint.Linter.RuleEntry | undefined): boolean {
+  const severity = Array.isArray(entry) ? entry[0] : entry;
+  return severity === "off" || severity === 0 || severity === undefined;
+}
+
+/**
+ * Get the name of the parser of a configuration, the module path for eslintrc
+ */
+function getParserName(config: FileConfig): string | undefined {
+  const parser =
+    config.parser || (config.languageOptions && config.languageOptions.parser);
+  if (!parser || typeof parser === "string") {
+    return parser;
+  }
+  return parser.meta && parser.meta.name ? String(parser.meta.name) : "custom";
+}
+
+function getPluginNames(config: FileConfig): string[] {
+  const plugins = config.plugins;
+  if (Array.isArray(plugins)) {
+    return plugins.map(String);
+  }
+  // flat config maps names to plugin objects
+  return plugins && typeof plugins === "object" ? Object.keys(plugins) : [];
+}
+
+function hasExtension(
+  filePath: string,
+  extensions: string[] | undefined
+): boolean {
+  if (!extensions || extensions.length === 0) {
+    return true;
+  }
+  const fileExtension = extname(filePath).toLowerCase();
+  return extensions.some(
+    (extension) =>
+      (extension.startsWith(".")
+        ? extension
+        : `.${extension}`
+      ).toLowerCase() === fileExtension
+  );
+}
+
 function isJsDocument(filePath: string): boolean {
   return /\.(jsx?|mjs)$/i.test(filePath);
 }
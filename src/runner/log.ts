@@ -0,0 +1,53 @@
+/**
+ * Importance of a log entry, from the most to the least important
+ */
+export type LogLevel = "error" | "warn" | "info" | "verbose";
+
+/**
+ * Value of the `traceLevel` setting, `normal` is the former name of `info`
+ */
+export type TraceLevel = LogLevel | "normal";
+
+/**
+ * Structured data of a log entry
+ */
+export interface LogFields {
+  readonly file?: string;
+  readonly rule?: string;
+  /**
+   * Duration of the logged operation in milliseconds
+   */
+  readonly durationMs?: number;
+  readonly [name: string]: string | number | boolean | undefined;
+}
+
+export interface LogEntry {
+  readonly level: LogLevel;
+  readonly message: string;
+  readonly fields?: LogFields;
+}
+
+const logLevels: readonly LogLevel[] = ["error", "warn", "info", "verbose"];
+
+export function toLogLevel(traceLevel: string | undefined): LogLevel {
+  const level = traceLevel && traceLevel.toLowerCase();
+  return logLevels.find((x) => x === level) || "info";
+}
+
+/**
+ * Milliseconds elapsed since a `process.hrtime()`
+ */
+export function getElapsedMs(start: [number, number]): number {
+  const [seconds, nanoseconds] = process.hrtime(start);
+  return seconds * 1e3 + nanoseconds / 1e6;
+}
+
+/**
+ * Whether entries of the given level are logged at the configured trace level
+ */
+export function isLogLevelEnabled(
+  traceLevel: string | undefined,
+  level: LogLevel
+): boolean {
+  return logLevels.indexOf(level) <= logLevels.indexOf(toLogLevel(traceLevel));
+}
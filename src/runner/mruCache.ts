@@ -30,4 +30,14 @@ export class MruCache<T> {
         }
         return this._map.get(filePath);
     }
+
+    public delete(filePath: string): void {
+        this._map.delete(filePath);
+        this._entries.delete(filePath);
+    }
+
+    public clear(): void {
+        this._map.clear();
+        this._entries.clear();
+    }
 }
\ No newline at end of file
@@ -0,0 +1,345 @@
+import * as os from 'os';
+import { join } from 'path';
+import { MessageChannel, receiveMessageOnPort, Worker } from 'worker_threads';
+
+import {
+  CancellationToken,
+  EsLintDiagnosis,
+  LintCancelledError,
+  RunConfiguration,
+  RunResult
+} from './index';
+import { LogEntry } from './log';
+import {
+  ClearCachesRequest,
+  DiagnoseRequest,
+  LintRequest,
+  SyncLintRequest,
+  WorkerResponse
+} from './protocol';
+
+interface PendingRequest {
+  readonly request: LintRequest | DiagnoseRequest;
+  readonly resolve: (result: RunResult | EsLintDiagnosis) => void;
+  readonly reject: (error: Error) => void;
+  readonly cancellationToken?: CancellationToken;
+}
+
+interface PoolWorker {
+  readonly worker: Worker;
+  current?: PendingRequest;
+  lastFilePath?: string;
+  /**
+   * Stopped once the current request completes
+   */
+  retired?: boolean;
+}
+
+const workerScript = join(__dirname, "worker.js");
+
+/**
+ * Runs eslint on a pool of worker threads so that linting never blocks the
+ * tsserver request thread.
+ */
+export class EsLintRunnerPool {
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: PendingRequest[] = [];
+  private nextRequestId = 0;
+  private disposed = false;
+  private readonly log: (entry: LogEntry) => void;
+  private readonly size: number;
+
+  public constructor(
+    log: (entry: LogEntry) => void,
+    size: number = defaultPoolSize()
+  ) {
+    this.log = log;
+    this.size = size;
+  }
+
+  /**
+   * Lint the given file contents on a worker. Requests are processed in the
+   * order they are made. Cancelled requests are not sent to a worker, and
+   * the results of requests cancelled while linting are discarded.
+   */
+  public runEsLint(
+    filePath: string,
+    contents: string,
+    configuration: RunConfiguration,
+    cancellationToken?: CancellationToken
+  ): Promise<RunResult> {
+    return this.enqueue<RunResult>(
+      {
+        kind: "lint",
+        id: this.nextRequestId++,
+        filePath,
+        contents,
+        configuration
+      },
+      cancellationToken
+    );
+  }
+
+  /**
+   * Describe how eslint is set up for a file on a worker, so that the
+   * diagnosis uses the eslint libraries and caches the lints use
+   */
+  public diagnose(
+    filePath: string,
+    configuration: RunConfiguration
+  ): Promise<EsLintDiagnosis> {
+    return this.enqueue<EsLintDiagnosis>({
+      kind: "diagnose",
+      id: this.nextRequestId++,
+      filePath,
+      configuration
+    });
+  }
+
+  /**
+   * Lint the given file contents on a worker and block until the result
+   * arrives, for requests of the language service that must be answered
+   * synchronously. Queued requests are not waited for. Returns undefined when
+   * no worker is idle or linting takes longer than `timeoutMs`.
+   */
+  public runEsLintSync(
+    filePath: string,
+    contents: string,
+    configuration: RunConfiguration,
+    timeoutMs: number
+  ): RunResult | undefined {
+    if (this.disposed) {
+      throw new Error("The eslint runner pool is disposed");
+    }
+
+    // a busy worker would only start on the request once its lint completes
+    const poolWorker = this.acquireWorker(filePath);
+    if (!poolWorker) {
+      return undefined;
+    }
+    const { port1, port2 } = new MessageChannel();
+    const signal = new SharedArrayBuffer(4);
+    const request: SyncLintRequest = {
+      kind: "syncLint",
+      id: this.nextRequestId++,
+      filePath,
+      contents,
+      configuration,
+      port: port2,
+      signal
+    };
+    try {
+      poolWorker.worker.postMessage(request, [port2]);
+      if (
+        Atomics.wait(new Int32Array(signal), 0, 0, timeoutMs) === "timed-out"
+      ) {
+        return undefined;
+      }
+      const received = receiveMessageOnPort(port1);
+      const response: WorkerResponse | undefined = received && received.message;
+      if (!response || response.kind !== "result") {
+        throw new Error(
+          response && response.kind === "error"
+            ? response.message
+            : "The lint worker did not respond"
+        );
+      }
+      return response.result;
+    } finally {
+      port1.close();
+    }
+  }
+
+  /**
+   * Stop the workers, so that the next requests load eslint, its plugins and
+   * parsers again. Requests being processed complete on their worker first.
+   */
+  public restartWorkers(): void {
+    for (const poolWorker of this.workers.slice()) {
+      if (poolWorker.current) {
+        poolWorker.retired = true;
+      } else {
+        this.stopWorker(poolWorker);
+      }
+    }
+  }
+
+  /**
+   * Make the workers read the config files again. Requests being processed
+   * complete with the configuration they loaded.
+   */
+  public clearCaches(): void {
+    const request: ClearCachesRequest = { kind: "clearCaches" };
+    for (const poolWorker of this.workers) {
+      poolWorker.worker.postMessage(request);
+    }
+  }
+
+  public dispose(): void {
+    this.disposed = true;
+    for (const pending of this.queue.splice(0)) {
+      pending.reject(new Error("The eslint runner pool is disposed"));
+    }
+    for (const poolWorker of this.workers.splice(0)) {
+      if (poolWorker.current) {
+        poolWorker.current.reject(
+          new Error("The eslint runner pool is disposed")
+        );
+      }
+      poolWorker.worker.terminate();
+    }
+  }
+
+  private enqueue<T extends RunResult | EsLintDiagnosis>(
+    request: LintRequest | DiagnoseRequest,
+    cancellationToken?: CancellationToken
+  ): Promise<T> {
+    if (this.disposed) {
+      return Promise.reject(new Error("The eslint runner pool is disposed"));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        request,
+        resolve: resolve as (result: RunResult | EsLintDiagnosis) => void,
+        reject,
+        cancellationToken
+      });
+      this.pump();
+    });
+  }
+
+  private pump(): void {
+    this.rejectCancelledRequests();
+    while (this.queue.length > 0) {
+      const pending = this.queue[0];
+      const poolWorker = this.acquireWorker(pending.request.filePath);
+      if (!poolWorker) {
+        return;
+      }
+      this.queue.shift();
+      poolWorker.current = pending;
+      poolWorker.lastFilePath = pending.request.filePath;
+      poolWorker.worker.postMessage(pending.request);
+    }
+  }
+
+  /**
+   * Prefer the idle worker that last linted the same file, it has the eslint
+   * library and the parser state for that file already loaded.
+   */
+  private acquireWorker(filePath: string): PoolWorker | undefined {
+    const idle = this.workers.filter((x) => !x.current && !x.retired);
+    const preferred = idle.find((x) => x.lastFilePath === filePath) || idle[0];
+    if (preferred) {
+      return preferred;
+    }
+    if (this.workers.filter((x) => !x.retired).length < this.size) {
+      return this.createWorker();
+    }
+    return undefined;
+  }
+
+  private createWorker(): PoolWorker {
+    this.log({
+      level: "verbose",
+      message: `(EsLintRunnerPool) Starting lint worker`
+    });
+
+    const worker = new Worker(workerScript);
+    const poolWorker: PoolWorker = { worker };
+    worker.on("message", (response: WorkerResponse) => {
+      switch (response.kind) {
+        case "log":
+          this.log(response.entry);
+          return;
+
+        case "result":
+        case "diagnosis":
+        case "error": {
+          const pending = poolWorker.current;
+          if (!pending || pending.request.id !== response.id) {
+            return;
+          }
+          poolWorker.current = undefined;
+          if (isCancelled(pending)) {
+            pending.reject(new LintCancelledError(pending.request.filePath));
+          } else if (response.kind === "result") {
+            pending.resolve(response.result);
+          } else if (response.kind === "diagnosis") {
+            pending.resolve(response.diagnosis);
+          } else {
+            pending.reject(new Error(response.message));
+          }
+          if (poolWorker.retired) {
+            this.stopWorker(poolWorker);
+          }
+          this.pump();
+          return;
+        }
+      }
+    });
+    worker.on("error", (err) => {
+      this.log({
+        level: "error",
+        message: `(EsLintRunnerPool) Lint worker failed: ${err.message}`
+      });
+      this.removeWorker(poolWorker, err);
+    });
+    worker.on("exit", (exitCode) => {
+      this.removeWorker(
+        poolWorker,
+        new Error(`Lint worker exited with code ${exitCode}`)
+      );
+    });
+    // Idle workers must not keep tsserver alive. Listening to messages refs
+    // the worker again, so this must come after adding the listeners.
+    worker.unref();
+
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  private rejectCancelledRequests(): void {
+    for (const pending of this.queue.filter(isCancelled)) {
+      this.queue.splice(this.queue.indexOf(pending), 1);
+      pending.reject(new LintCancelledError(pending.request.filePath));
+    }
+  }
+
+  private stopWorker(poolWorker: PoolWorker): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (index !== -1) {
+      this.workers.splice(index, 1);
+    }
+    poolWorker.worker.terminate();
+  }
+
+  private removeWorker(poolWorker: PoolWorker, error: Error): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) {
+      return;
+    }
+    this.workers.splice(index, 1);
+    if (poolWorker.current) {
+      poolWorker.current.reject(error);
+      poolWorker.current = undefined;
+    }
+    if (!this.disposed) {
+      this.pump();
+    }
+  }
+}
+
+function isCancelled(pending: PendingRequest): boolean {
+  return (
+    pending.cancellationToken !== undefined &&
+    pending.cancellationToken.isCancellationRequested()
+  );
+}
+
+function defaultPoolSize(): number {
+  // Every worker loads its own copy of eslint and of the TypeScript program
+  // used by type aware rules, so keep the pool small.
+  return Math.max(1, Math.min(2, os.cpus().length - 1));
+}
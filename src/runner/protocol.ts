@@ -0,0 +1,65 @@
+import { MessagePort } from 'worker_threads';
+
+import { EsLintDiagnosis, RunConfiguration, RunResult } from './index';
+import { LogEntry } from './log';
+
+/**
+ * Messages sent from the pool to a lint worker
+ */
+export interface LintRequest {
+  readonly kind: "lint";
+  readonly id: number;
+  readonly filePath: string;
+  readonly contents: string;
+  readonly configuration: RunConfiguration;
+}
+
+/**
+ * A lint the tsserver thread waits for. The response is posted to `port`,
+ * and the first element of `signal` is set to 1 and notified once it is.
+ */
+export interface SyncLintRequest {
+  readonly kind: "syncLint";
+  readonly id: number;
+  readonly filePath: string;
+  readonly contents: string;
+  readonly configuration: RunConfiguration;
+  readonly port: MessagePort;
+  readonly signal: SharedArrayBuffer;
+}
+
+/**
+ * Describe how eslint is set up for a file, see `EsLintRunner.diagnose`
+ */
+export interface DiagnoseRequest {
+  readonly kind: "diagnose";
+  readonly id: number;
+  readonly filePath: string;
+  readonly configuration: RunConfiguration;
+}
+
+/**
+ * Makes the runner of a worker read the config files again
+ */
+export interface ClearCachesRequest {
+  readonly kind: "clearCaches";
+}
+
+export type WorkerRequest =
+  | LintRequest
+  | SyncLintRequest
+  | DiagnoseRequest
+  | ClearCachesRequest;
+
+/**
+ * Messages sent from a lint worker back to the pool
+ */
+export type WorkerResponse =
+  | { readonly kind: "log", readonly entry: LogEntry }
+  | { readonly kind: "result", readonly id: number, readonly result: RunResult }
+  | {
+      readonly kind: "diagnosis";
+      readonly id: number;
+      readonly diagnosis: EsLintDiagnosis;
+    }
+  | { readonly kind: "error", readonly id: number, readonly message: string };
@@ -0,0 +1,130 @@
+import 'mocha';
+
+import { expect } from 'chai';
+import * as path from 'path';
+
+import {
+  findEslintrcConfigFile,
+  findFlatConfigFile,
+  findPackageRoot,
+  getConfigCascade,
+  isFlatConfigFile
+} from '../configFiles';
+
+const testDataRoot = path.join(__dirname, "..", "..", "..", "test-data");
+
+describe("configFiles", () => {
+  describe("findFlatConfigFile", () => {
+    it("should find the flat config in a parent directory", () => {
+      const root = path.join(testDataRoot, "flat-config");
+      expect(
+        findFlatConfigFile(path.join(root, "nested", "test.js"))
+      ).to.equal(path.join(root, "eslint.config.js"));
+    });
+
+    it("should return undefined when there is no flat config", () => {
+      expect(
+        findFlatConfigFile(path.join(testDataRoot, "with-eslint", "test.ts"))
+      ).to.equal(undefined);
+    });
+  });
+
+  describe("findEslintrcConfigFile", () => {
+    it("should find the closest legacy config", () => {
+      const root = path.join(testDataRoot, "with-eslint");
+      expect(findEslintrcConfigFile(path.join(root, "test.ts"))).to.equal(
+        path.join(root, ".eslintrc.json")
+      );
+    });
+  });
+
+  describe("findPackageRoot", () => {
+    const workspace = path.join(testDataRoot, "monorepo");
+
+    it("should find the closest package", () => {
+      expect(
+        findPackageRoot(
+          path.join(workspace, "packages", "a", "src", "test.js"),
+          workspace
+        )
+      ).to.equal(path.join(workspace, "packages", "a"));
+      expect(
+        findPackageRoot(path.join(workspace, "tools", "test.js"), workspace)
+      ).to.equal(workspace);
+    });
+
+    it("should stop at root eslintrc and flat config files", () => {
+      const cascade = path.join(testDataRoot, "config-cascade");
+      expect(
+        findPackageRoot(path.join(cascade, "nested", "test.js"), testDataRoot)
+      ).to.equal(cascade);
+      const flatConfig = path.join(testDataRoot, "flat-config");
+      expect(
+        findPackageRoot(path.join(flatConfig, "nested", "test.js"), undefined)
+      ).to.equal(flatConfig);
+    });
+
+    it("should not search above the workspace folder", () => {
+      const nested = path.join(testDataRoot, "flat-config", "nested");
+      expect(findPackageRoot(path.join(nested, "test.js"), nested)).to.equal(
+        nested
+      );
+    });
+  });
+
+  describe("getConfigCascade", () => {
+    const root = path.join(testDataRoot, "config-cascade");
+
+    it("should find the config files up to the root config", () => {
+      const cascade = getConfigCascade(path.join(root, "nested", "test.js"), {
+        cwd: root
+      });
+
+      expect(cascade.files).to.deep.equal([
+        path.join(root, "nested", ".eslintrc.yml"),
+        require.resolve("@typescript-eslint/eslint-plugin"),
+        path.join(root, ".eslintrc.json"),
+        path.join(root, "base.json"),
+        path.join(root, ".eslintignore")
+      ]);
+      expect(cascade.directories).to.deep.equal([
+        path.join(root, "nested"),
+        root
+      ]);
+    });
+
+    it("should only use the configured config file without eslintrc", () => {
+      const configFile = path.join(root, "base.json");
+      const cascade = getConfigCascade(path.join(root, "nested", "test.js"), {
+        configFile,
+        useEslintrc: false,
+        ignorePath: path.join(root, "missing-ignore")
+      });
+
+      expect(cascade.files).to.deep.equal([configFile]);
+      expect(cascade.directories).to.deep.equal([]);
+    });
+
+    it("should only use the flat config file", () => {
+      const flatRoot = path.join(testDataRoot, "flat-config");
+      const flatConfigFile = path.join(flatRoot, "eslint.config.js");
+      const cascade = getConfigCascade(
+        path.join(flatRoot, "nested", "test.js"),
+        { flatConfigFile }
+      );
+
+      expect(cascade.files).to.deep.equal([flatConfigFile]);
+      expect(cascade.directories).to.deep.equal([
+        path.join(flatRoot, "nested"),
+        flatRoot
+      ]);
+    });
+  });
+
+  describe("isFlatConfigFile", () => {
+    it("should only accept flat config file names", () => {
+      expect(isFlatConfigFile("/a/eslint.config.mjs")).to.equal(true);
+      expect(isFlatConfigFile("/a/.eslintrc.json")).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import 'mocha';
+
+import { expect } from 'chai';
+import * as eslint from 'eslint';
+
+import {
+  createLintEngine,
+  EsLintLibrary,
+  getEsLintVersion,
+  RuleTimer,
+  supportsFlatConfig
+} from '../engine';
+
+function createResult(
+  filePath: string,
+  errorCount: number,
+  warningCount: number
+): eslint.CLIEngine.LintResult {
+  return {
+    filePath,
+    messages: [],
+    errorCount,
+    warningCount,
+    fixableErrorCount: errorCount,
+    fixableWarningCount: 0
+  };
+}
+
+function createFakeESLintClass(
+  version: string,
+  constructed: Array<Record<string, unknown>>
+) {
+  return class ESLint {
+    public static readonly version = version;
+
+    public constructor(options: Record<string, unknown>) {
+      constructed.push(options);
+    }
+
+    public lintText(
+      _text: string,
+      options: { filePath: string }
+    ): Promise<eslint.CLIEngine.LintResult[]> {
+      return Promise.resolve([
+        createResult(options.filePath, 2, 1),
+        createResult("other.ts", 1, 0)
+      ]);
+    }
+
+    public calculateConfigForFile(): Promise<eslint.Linter.Config> {
+      return Promise.resolve({ rules: { semi: "error" } });
+    }
+
+    public isPathIgnored(filePath: string): Promise<boolean> {
+      return Promise.resolve(filePath.endsWith(".ignored.ts"));
+    }
+
+    public getRulesMetaForResults() {
+      return {
+        semi: {
+          type: "layout",
+          docs: { url: "https://eslint.org/docs/rules/semi", category: "" },
+          fixable: "code"
+        }
+      };
+    }
+  };
+}
+
+function createFakeLibrary(version: string) {
+  const constructed: Array<Record<string, unknown>> = [];
+  const flatConstructed: Array<Record<string, unknown>> = [];
+  const library = {
+    ESLint: createFakeESLintClass(version, constructed),
+    FlatESLint: createFakeESLintClass(version, flatConstructed)
+  };
+
+  return {
+    library: (library as unknown) as EsLintLibrary,
+    constructed,
+    flatConstructed
+  };
+}
+
+describe("LintEngine", () => {
+  it("should use CLIEngine for eslint 6", () => {
+    const engine = createLintEngine(eslint as EsLintLibrary, {});
+    expect(engine.api).to.equal("CLIEngine");
+    expect(engine.version).to.equal(getEsLintVersion(eslint as EsLintLibrary));
+  });
+
+  it("should use the ESLint class when CLIEngine is not available", async () => {
+    const { library, constructed } = createFakeLibrary("8.10.0");
+    const engine = createLintEngine(library, {
+      cwd: "/workspace",
+      reportUnusedDisableDirectives: true
+    });
+
+    expect(engine.api).to.equal("ESLint");
+    expect(engine.version).to.equal("8.10.0");
+    expect(constructed[0]).to.deep.equal({
+      fix: false,
+      cwd: "/workspace",
+      reportUnusedDisableDirectives: "error"
+    });
+    expect(await engine.isPathIgnored("a.ignored.ts")).to.equal(true);
+    expect(await engine.calculateConfigForFile("a.ts")).to.deep.equal({
+      rules: { semi: "error" }
+    });
+  });
+
+  it("should lint with flat config relative to the config file", () => {
+    const { library, constructed, flatConstructed } = createFakeLibrary(
+      "8.40.0"
+    );
+    const engine = createLintEngine(library, {
+      cwd: "/workspace",
+      flatConfigFile: "/workspace/packages/a/eslint.config.js"
+    });
+
+    expect(engine.configType).to.equal("flat");
+    expect(constructed.length).to.equal(0);
+    expect(flatConstructed[0]).to.deep.equal({
+      fix: false,
+      cwd: "/workspace/packages/a",
+      overrideConfigFile: "/workspace/packages/a/eslint.config.js"
+    });
+  });
+
+  it("should turn off disabled rules in the override config", () => {
+    const { library, constructed, flatConstructed } = createFakeLibrary(
+      "8.40.0"
+    );
+    createLintEngine(library, { disabledRules: ["semi"] });
+    createLintEngine(library, {
+      flatConfigFile: "/workspace/eslint.config.js",
+      parserOptions: { project: "tsconfig.json" },
+      disabledRules: ["semi"]
+    });
+
+    expect(constructed[0].overrideConfig).to.deep.equal({
+      rules: { semi: "off" }
+    });
+    expect(flatConstructed[0].overrideConfig).to.deep.equal({
+      languageOptions: { parserOptions: { project: "tsconfig.json" } },
+      rules: { semi: "off" }
+    });
+  });
+
+  it("should not support flat config before eslint 8", () => {
+    expect(supportsFlatConfig(eslint as EsLintLibrary)).to.equal(false);
+    expect(() =>
+      createLintEngine(eslint as EsLintLibrary, {
+        flatConfigFile: "/workspace/eslint.config.js"
+      })
+    ).to.throw();
+  });
+
+  it("should normalize ESLint class results to a lint report", async () => {
+    const { library } = createFakeLibrary("7.32.0");
+    const { report } = await createLintEngine(library, {}).lintText("", "a.ts");
+
+    expect(report.results.length).to.equal(2);
+    expect(report.results[0].filePath).to.equal("a.ts");
+    expect(report.errorCount).to.equal(3);
+    expect(report.warningCount).to.equal(1);
+    expect(report.fixableErrorCount).to.equal(3);
+    expect(report.usedDeprecatedRules).to.deep.equal([]);
+  });
+
+  it("should only pass on the metadata of rules with problems", () => {
+    const { library } = createFakeLibrary("7.32.0");
+    const result = {
+      ...createResult("a.ts", 1, 0),
+      messages: [
+        { ruleId: "semi", severity: 2, message: "", line: 1, column: 1 },
+        { ruleId: null, severity: 2, message: "", line: 1, column: 1 }
+      ] as eslint.Linter.LintMessage[]
+    };
+
+    expect(createLintEngine(library, {}).getRulesMeta([result])).to.deep.equal({
+      semi: {
+        type: "layout",
+        docs: { url: "https://eslint.org/docs/rules/semi" },
+        fixable: "code"
+      }
+    });
+  });
+
+  it("should look up the metadata of rules by their ids", () => {
+    const { library } = createFakeLibrary("7.32.0");
+    const semiMeta = {
+      type: "layout",
+      docs: { url: "https://eslint.org/docs/rules/semi" },
+      fixable: "code"
+    };
+
+    expect(
+      createLintEngine(library, {}).getRulesMetaForRuleIds("a.ts", [
+        "semi",
+        "quotes"
+      ])
+    ).to.deep.equal({ semi: semiMeta });
+    const cliEngine = createLintEngine(eslint as EsLintLibrary, {});
+    expect(
+      cliEngine.getRulesMetaForRuleIds("a.ts", ["semi"]).semi
+    ).to.deep.include({ type: "layout", fixable: "code" });
+  });
+
+  it("should time the rules of a lint with the timing module of eslint", async () => {
+    const timing = {
+      enabled: false,
+      time: (_key: string, listener: (...args: unknown[]) => void) => listener
+    };
+    const timer = new RuleTimer(timing);
+    const listener = timing.time("semi", () => "called");
+
+    const { result, ruleTimes } = await timer.time(() => {
+      expect(timing.enabled).to.equal(true);
+      return Promise.resolve(listener());
+    });
+
+    expect(result).to.equal("called");
+    expect(Object.keys(ruleTimes)).to.deep.equal(["semi"]);
+    expect(timing.enabled).to.equal(false);
+    // listeners called outside of a timed lint are not recorded
+    listener();
+    expect(Object.keys(ruleTimes)).to.deep.equal(["semi"]);
+  });
+
+  it("should not mix the rule times of overlapping lints", async () => {
+    const timing = {
+      enabled: false,
+      time: (_key: string, listener: (...args: unknown[]) => void) => listener
+    };
+    const timer = new RuleTimer(timing);
+    const semi = timing.time("semi", () => undefined);
+    const quotes = timing.time("quotes", () => undefined);
+
+    const [first, second, untimed] = await Promise.all([
+      timer.time(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        semi();
+      }),
+      timer.time(() => Promise.resolve(quotes())),
+      timer.run(() => Promise.resolve(semi()))
+    ]);
+
+    expect(Object.keys(first.ruleTimes)).to.deep.equal(["semi"]);
+    expect(Object.keys(second.ruleTimes)).to.deep.equal(["quotes"]);
+    expect(untimed).to.equal(undefined);
+  });
+});
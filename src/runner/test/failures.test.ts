@@ -0,0 +1,38 @@
+import 'mocha';
+
+import { expect } from 'chai';
+
+import { getMinimalReplacements } from '../failures';
+
+describe("getMinimalReplacements", () => {
+  it("should return no replacements for equal texts", () => {
+    expect(getMinimalReplacements("a\nb\n", "a\nb\n")).to.deep.equal([]);
+  });
+
+  it("should only replace the changed characters", () => {
+    expect(
+      getMinimalReplacements(
+        'import { b, a } from "x";\nfoo();\nbar()\n',
+        "import { a, b } from 'x';\nfoo();\nbar();\n"
+      )
+    ).to.deep.equal([
+      { range: [9, 24], text: "a, b } from 'x'" },
+      { range: [38, 38], text: ";" }
+    ]);
+  });
+
+  it("should insert and remove lines", () => {
+    expect(
+      getMinimalReplacements("a\nb\nc\nd\n", "a\nx\nc\nd\ne\n")
+    ).to.deep.equal([
+      { range: [2, 3], text: "x" },
+      { range: [8, 8], text: "e\n" }
+    ]);
+  });
+
+  it("should handle a missing final line break", () => {
+    expect(getMinimalReplacements("a\nb", "a\nb\n")).to.deep.equal([
+      { range: [3, 3], text: "\n" }
+    ]);
+  });
+});
@@ -18,4 +18,26 @@ describe('MruCache', () => {
 
         expect(cache.has('0')).to.equal(false);
     });
+
+    it('should remove deleted entries', () => {
+        const cache = new MruCache<number>(10);
+        cache.set('0', 0);
+        cache.set('1', 1);
+
+        cache.delete('0');
+
+        expect(cache.has('0')).to.equal(false);
+        expect(cache.get('1')).to.equal(1);
+    });
+
+    it('should remove all entries when cleared', () => {
+        const cache = new MruCache<number>(10);
+        cache.set('0', 0);
+        cache.set('1', 1);
+
+        cache.clear();
+
+        expect(cache.has('0')).to.equal(false);
+        expect(cache.get('1')).to.equal(undefined);
+    });
 });
@@ -0,0 +1,213 @@
+import 'mocha';
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { EsLintRunner, LintCancelledError, RunConfiguration } from '../index';
+import { EsLintRunnerPool } from '../pool';
+
+const testDataRoot = path.join(__dirname, "..", "..", "..", "test-data");
+
+const defaultRunConfiguration: RunConfiguration = {
+  exclude: [],
+  jsEnable: false,
+  ignoreDefinitionFiles: true
+};
+
+describe("EsLintRunnerPool", () => {
+  let pool: EsLintRunnerPool;
+
+  beforeEach(() => {
+    pool = new EsLintRunnerPool(() => {
+      /* noop */
+    }, 1);
+  });
+
+  afterEach(() => {
+    pool.dispose();
+  });
+
+  it("should produce the same result as linting in process", async () => {
+    const workspacePath = path.join(testDataRoot, "with-eslint");
+    const filePath = path.join(workspacePath, "test.ts");
+    const contents = fs.readFileSync(filePath).toString();
+    const configuration = {
+      ...defaultRunConfiguration,
+      workspaceFolderPath: workspacePath
+    };
+
+    const expected = await new EsLintRunner(() => {
+      /* noop */
+    }).runEsLint(filePath, contents, configuration);
+    const result = await pool.runEsLint(filePath, contents, configuration);
+
+    expect(result.lintResult.errorCount).to.equal(
+      expected.lintResult.errorCount
+    );
+    expect(result.lintResult.warningCount).to.equal(
+      expected.lintResult.warningCount
+    );
+    expect(result.workspaceFolderPath).to.equal(workspacePath);
+  });
+
+  it("should process queued requests after the worker is free", async () => {
+    const filePath = path.join(testDataRoot, "with-eslint", "test.js");
+    const contents = fs.readFileSync(filePath).toString();
+
+    const results = await Promise.all([
+      pool.runEsLint(filePath, contents, defaultRunConfiguration),
+      pool.runEsLint(filePath, contents, {
+        ...defaultRunConfiguration,
+        jsEnable: true
+      })
+    ]);
+
+    expect(results[0].lintResult.errorCount).to.equal(0);
+    expect(results[1].lintResult.errorCount).to.equal(1);
+  });
+
+  it("should discard cancelled requests", async () => {
+    const filePath = path.join(testDataRoot, "with-eslint", "test.js");
+    const contents = fs.readFileSync(filePath).toString();
+    const configuration = { ...defaultRunConfiguration, jsEnable: true };
+    const token = {
+      cancelled: false,
+      isCancellationRequested: () => token.cancelled
+    };
+
+    const running = pool.runEsLint(filePath, contents, configuration, token);
+    const queued = pool.runEsLint(filePath, contents, configuration, token);
+    const other = pool.runEsLint(filePath, contents, configuration);
+    token.cancelled = true;
+
+    const errors = await Promise.all(
+      [running, queued].map((x) =>
+        x.then(
+          () => undefined,
+          (e: Error) => e
+        )
+      )
+    );
+    expect(errors[0]).to.be.instanceOf(LintCancelledError);
+    expect(errors[1]).to.be.instanceOf(LintCancelledError);
+    expect((await other).lintResult.errorCount).to.equal(1);
+  });
+
+  it("should complete running requests when the workers are restarted", async () => {
+    const filePath = path.join(testDataRoot, "with-eslint", "test.js");
+    const contents = fs.readFileSync(filePath).toString();
+    const configuration = { ...defaultRunConfiguration, jsEnable: true };
+
+    const running = pool.runEsLint(filePath, contents, configuration);
+    pool.restartWorkers();
+    const queued = pool.runEsLint(filePath, contents, configuration);
+
+    expect((await running).lintResult.errorCount).to.equal(1);
+    expect((await queued).lintResult.errorCount).to.equal(1);
+  });
+
+  it("should read the config files again after clearing the caches", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "eslint-plugin-"));
+    const configPath = path.join(directory, ".eslintrc.json");
+    const filePath = path.join(directory, "test.js");
+    const contents = "var a = 1\n";
+    const configuration = {
+      ...defaultRunConfiguration,
+      jsEnable: true,
+      workspaceFolderPath: directory,
+      // eslint is not installed next to the file
+      nodePath: path.join(__dirname, "..", "..", "..", "node_modules")
+    };
+    const writeConfig = (semi: string) =>
+      fs.writeFileSync(
+        configPath,
+        JSON.stringify({ root: true, rules: { semi } })
+      );
+
+    try {
+      writeConfig("error");
+      fs.writeFileSync(filePath, contents);
+      const before = await pool.runEsLint(filePath, contents, configuration);
+
+      writeConfig("off");
+      pool.clearCaches();
+      const after = await pool.runEsLint(filePath, contents, configuration);
+
+      expect(before.lintResult.errorCount).to.equal(1);
+      expect(after.lintResult.errorCount).to.equal(0);
+    } finally {
+      fs.unlinkSync(configPath);
+      fs.unlinkSync(filePath);
+      fs.rmdirSync(directory);
+    }
+  });
+
+  it("should wait for the result of a synchronous lint", async () => {
+    const filePath = path.join(testDataRoot, "overlapping-errors", "test.ts");
+    const contents = fs.readFileSync(filePath).toString();
+    const configuration = { ...defaultRunConfiguration, fixAll: {} };
+
+    const expected = await new EsLintRunner(() => {
+      /* noop */
+    }).runEsLint(filePath, contents, configuration);
+    const result = pool.runEsLintSync(filePath, contents, configuration, 10000);
+
+    expect(expected.fixAllReplacements).to.not.equal(undefined);
+    expect(result).to.not.equal(undefined);
+    expect(result!.fixAllReplacements).to.deep.equal(
+      expected.fixAllReplacements
+    );
+  });
+
+  it("should not run synchronous lints on busy workers", async () => {
+    const filePath = path.join(testDataRoot, "overlapping-errors", "test.ts");
+    const contents = fs.readFileSync(filePath).toString();
+
+    const running = pool.runEsLint(filePath, contents, defaultRunConfiguration);
+    expect(
+      pool.runEsLintSync(filePath, contents, defaultRunConfiguration, 10000)
+    ).to.equal(undefined);
+    expect((await running).lintResult.errorCount).to.equal(3);
+  });
+
+  it("should give up on synchronous lints that take too long", () => {
+    const filePath = path.join(testDataRoot, "overlapping-errors", "test.ts");
+    const contents = fs.readFileSync(filePath).toString();
+
+    // the worker has yet to load eslint
+    expect(
+      pool.runEsLintSync(filePath, contents, defaultRunConfiguration, 1)
+    ).to.equal(undefined);
+  });
+
+  it("should diagnose files on a worker", async () => {
+    const workspacePath = path.join(testDataRoot, "with-eslint");
+    const filePath = path.join(workspacePath, "test.ts");
+    const configuration = {
+      ...defaultRunConfiguration,
+      workspaceFolderPath: workspacePath
+    };
+
+    const expected = await new EsLintRunner(() => {
+      /* noop */
+    }).diagnose(filePath, configuration);
+    const diagnosis = await pool.diagnose(filePath, configuration);
+
+    expect(diagnosis).to.deep.equal(expected);
+    expect(diagnosis.hasConfiguration).to.equal(true);
+  });
+
+  it("should reject requests after being disposed", async () => {
+    pool.dispose();
+
+    let error: Error | undefined;
+    try {
+      await pool.runEsLint("test.ts", "", defaultRunConfiguration);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.not.equal(undefined);
+  });
+});
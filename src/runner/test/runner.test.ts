@@ -3,13 +3,23 @@ import 'mocha'
 import { expect } from 'chai'
 import * as eslint from 'eslint'
 import * as fs from 'fs'
+import * as os from 'os';
 import * as path from 'path'
+import * as ts from 'typescript';
 
+import { LintEngineOptions } from '../engine';
 import {
   filterProblemsForFile,
   getNonOverlappingReplacements
 } from '../failures'
-import { EsLintRunner, RunConfiguration } from '../index'
+import {
+  EsLintRunner,
+  FixAllOptions,
+  LintCancelledError,
+  RunConfiguration,
+  RunResult
+} from '../index';
+import { LogEntry } from '../log';
 
 const testDataRoot = path.join(__dirname, "..", "..", "..", "test-data");
 
@@ -22,13 +32,13 @@ const defaultRunConfiguration: RunConfiguration = {
 describe("ESLintRunner", () => {
   describe("runEsLint", () => {
     // Must come first. TS lint only reports warnings once.
-    it.skip("should report warnings", () => {
+    it.skip("should report warnings", async () => {
       const filePath = path.join(
         testDataRoot,
         "no-unused-variables",
         "test.ts"
       );
-      const result = createEsLintRunner().runEsLint(
+      const result = await createEsLintRunner().runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         defaultRunConfiguration
@@ -38,8 +48,8 @@ describe("ESLintRunner", () => {
       expect(result.warnings.length).to.equal(2);
     });
 
-    it("should not return any errors for empty file", () => {
-      const result = createEsLintRunner().runEsLint(
+    it("should not return any errors for empty file", async () => {
+      const result = await createEsLintRunner().runEsLint(
         "",
         "",
         defaultRunConfiguration
@@ -47,10 +57,10 @@ describe("ESLintRunner", () => {
       expect(result.lintResult.errorCount).to.equal(0);
     });
 
-    it("should return an error for test file", () => {
+    it("should return an error for test file", async () => {
       const folderPath = path.join(testDataRoot, "with-eslint");
       const filePath = path.join(folderPath, "test.ts");
-      const result = createEsLintRunner().runEsLint(
+      const result = await createEsLintRunner().runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         { ...defaultRunConfiguration, workspaceFolderPath: folderPath }
@@ -70,9 +80,140 @@ describe("ESLintRunner", () => {
       expect(fix!.range.length).to.equal(2);
     });
 
-    it("should use correct config for each file", () => {
+    it("should report the config files of the file", async () => {
+      const folderPath = path.join(testDataRoot, "with-eslint");
+      const filePath = path.join(folderPath, "test.ts");
+      const result = await createEsLintRunner().runEsLint(
+        filePath,
+        fs.readFileSync(filePath).toString(),
+        { ...defaultRunConfiguration, workspaceFolderPath: folderPath }
+      );
+
+      expect(result.configFilePaths).to.deep.equal([
+        path.join(folderPath, ".eslintrc.json")
+      ]);
+      expect(result.configDirectories).to.deep.equal([folderPath]);
+    });
+
+    it("should measure the time spent in every rule", async () => {
+      const folderPath = path.join(testDataRoot, "with-eslint");
+      const filePath = path.join(folderPath, "test.ts");
+      const result = await createEsLintRunner().runEsLint(
+        filePath,
+        fs.readFileSync(filePath).toString(),
+        { ...defaultRunConfiguration, workspaceFolderPath: folderPath }
+      );
+
+      expect(result.timings).to.not.equal(undefined);
+      expect(result.timings!.lintMs).to.be.greaterThan(0);
+      expect(Object.keys(result.timings!.ruleTimes!)).to.include(
+        "@typescript-eslint/array-type"
+      );
+    });
+
+    it("should turn off disabled rules", async () => {
+      const folderPath = path.join(testDataRoot, "with-eslint");
+      const filePath = path.join(folderPath, "test.ts");
+      const result = await createEsLintRunner().runEsLint(
+        filePath,
+        fs.readFileSync(filePath).toString(),
+        {
+          ...defaultRunConfiguration,
+          workspaceFolderPath: folderPath,
+          disabledRules: ["@typescript-eslint/array-type"]
+        }
+      );
+
+      expect(result.lintResult.errorCount).to.equal(0);
+    });
+
+    it("should report the type aware rules of slow lints", async () => {
+      const folderPath = path.join(testDataRoot, "with-eslint");
+      const filePath = path.join(folderPath, "test.ts");
+      const contents = fs.readFileSync(filePath).toString();
+      const configuration = {
+        ...defaultRunConfiguration,
+        workspaceFolderPath: folderPath
+      };
+      const runner = createEsLintRunner();
+
+      const fast = await runner.runEsLint(filePath, contents, configuration);
+      const slow = await runner.runEsLint(filePath, contents, {
+        ...configuration,
+        maxLintDurationMs: 0
+      });
+
+      expect(fast.typeAwareRules).to.equal(undefined);
+      // the configured rule does not require type information
+      expect(slow.typeAwareRules).to.deep.equal([]);
+    });
+
+    it("should reject cancelled lints", async () => {
+      const folderPath = path.join(testDataRoot, "with-eslint");
+      const filePath = path.join(folderPath, "test.ts");
+      const error = await createEsLintRunner()
+        .runEsLint(
+          filePath,
+          fs.readFileSync(filePath).toString(),
+          { ...defaultRunConfiguration, workspaceFolderPath: folderPath },
+          { isCancellationRequested: () => true }
+        )
+        .then(
+          () => undefined,
+          (e: Error) => e
+        );
+
+      expect(error).to.be.instanceOf(LintCancelledError);
+    });
+
+    it("should lint in the root of the package of the file", async () => {
+      const workspacePath = path.join(testDataRoot, "monorepo");
+      const packageRoot = path.join(workspacePath, "packages", "a");
+      const configuration = {
+        ...defaultRunConfiguration,
+        jsEnable: true,
+        workspaceFolderPath: workspacePath
+      };
+      const runner = createEsLintRunner();
+
+      const filePath = path.join(packageRoot, "src", "test.js");
+      const result = await runner.runEsLint(
+        filePath,
+        fs.readFileSync(filePath).toString(),
+        configuration
+      );
+      expect(result.packageRoot).to.equal(packageRoot);
+      expect(result.lintResult.errorCount).to.equal(1);
+
+      // the ignore file of the package applies
+      const ignoredPath = path.join(packageRoot, "src", "ignored.js");
+      const ignored = await runner.runEsLint(
+        ignoredPath,
+        fs.readFileSync(ignoredPath).toString(),
+        configuration
+      );
+      expect(ignored.lintResult.results).to.deep.equal([]);
+
+      // and so does the ignore file of the workspace folder
+      const workspaceIgnoredPath = path.join(
+        packageRoot,
+        "src",
+        "generated.js"
+      );
+      const workspaceIgnored = await runner.runEsLint(
+        workspaceIgnoredPath,
+        fs.readFileSync(workspaceIgnoredPath).toString(),
+        configuration
+      );
+      expect(workspaceIgnored.lintResult.results).to.deep.equal([]);
+      expect(workspaceIgnored.configFilePaths).to.contain(
+        path.join(workspacePath, ".eslintignore")
+      );
+    });
+
+    it("should use correct config for each file", async () => {
       const warningFilePath = path.join(testDataRoot, "warnings", "test.ts");
-      const warnResult = createEsLintRunner().runEsLint(
+      const warnResult = await createEsLintRunner().runEsLint(
         warningFilePath,
         fs.readFileSync(warningFilePath).toString(),
         defaultRunConfiguration
@@ -82,7 +223,7 @@ describe("ESLintRunner", () => {
       expect(warnResult.lintResult.warningCount).to.equal(1);
 
       const errorFilePath = path.join(testDataRoot, "with-eslint", "test.ts");
-      const errorResult = createEsLintRunner().runEsLint(
+      const errorResult = await createEsLintRunner().runEsLint(
         errorFilePath,
         fs.readFileSync(warningFilePath).toString(),
         defaultRunConfiguration
@@ -92,9 +233,9 @@ describe("ESLintRunner", () => {
       expect(errorResult.lintResult.warningCount).to.equal(0);
     });
 
-    it("should not return any errors for excluded file (absolute path)", () => {
+    it("should not return any errors for excluded file (absolute path)", async () => {
       const filePath = path.join(testDataRoot, "with-eslint", "test.ts");
-      const result = createEsLintRunner().runEsLint(
+      const result = await createEsLintRunner().runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         {
@@ -106,10 +247,10 @@ describe("ESLintRunner", () => {
       expect(result.lintResult.errorCount).to.equal(0);
     });
 
-    it("should not return any errors for excluded file (relative path)", () => {
+    it("should not return any errors for excluded file (relative path)", async () => {
       const root = path.join(testDataRoot, "with-eslint");
       const filePath = path.join(root, "test.ts");
-      const result = createEsLintRunner().runEsLint(
+      const result = await createEsLintRunner().runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         {
@@ -122,10 +263,10 @@ describe("ESLintRunner", () => {
       expect(result.lintResult.errorCount).to.equal(0);
     });
 
-    it("should set working directory to workspace path", () => {
+    it("should set working directory to workspace path", async () => {
       const workspacePath = path.join(testDataRoot, "with-eslint");
       const filePath = path.join(workspacePath, "test.ts");
-      const result = createEsLintRunner().runEsLint(
+      const result = await createEsLintRunner().runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         {
@@ -139,10 +280,10 @@ describe("ESLintRunner", () => {
       expect(result.workspaceFolderPath).to.equal(workspacePath);
     });
 
-    it.skip("should return warnings for invalid eslint install", () => {
+    it.skip("should return warnings for invalid eslint install", async () => {
       const root = path.join(testDataRoot, "invalid-install");
       const filePath = path.join(root, "test.ts");
-      const result = createEsLintRunner().runEsLint(
+      const result = await createEsLintRunner().runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         {
@@ -154,10 +295,10 @@ describe("ESLintRunner", () => {
       expect(result.warnings.length).to.equal(1);
     });
 
-    it("should not return errors in js file by default", () => {
+    it("should not return errors in js file by default", async () => {
       const root = path.join(testDataRoot, "with-eslint");
       const filePath = path.join(root, "test.js");
-      const result = createEsLintRunner().runEsLint(
+      const result = await createEsLintRunner().runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         defaultRunConfiguration
@@ -166,10 +307,10 @@ describe("ESLintRunner", () => {
       expect(result.lintResult.errorCount).to.equal(0);
     });
 
-    it("should return errors in js file if jsEnable is set", () => {
+    it("should return errors in js file if jsEnable is set", async () => {
       const root = path.join(testDataRoot, "with-eslint");
       const filePath = path.join(root, "test.js");
-      const result = createEsLintRunner().runEsLint(
+      const result = await createEsLintRunner().runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         { ...defaultRunConfiguration, jsEnable: true }
@@ -178,10 +319,10 @@ describe("ESLintRunner", () => {
       expect(result.lintResult.errorCount).to.equal(1);
     });
 
-    it("should not return errors in excluded file", () => {
+    it("should not return errors in excluded file", async () => {
       const root = path.join(testDataRoot, "with-eslint");
       const filePath = path.join(root, "excluded.ts");
-      const result = createEsLintRunner().runEsLint(
+      const result = await createEsLintRunner().runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         defaultRunConfiguration
@@ -190,10 +331,10 @@ describe("ESLintRunner", () => {
       expect(result.lintResult.errorCount).to.equal(0);
     });
 
-    it("should generate warning for invalid node path", () => {
+    it("should generate warning for invalid node path", async () => {
       const root = path.join(testDataRoot, "with-eslint");
       const filePath = path.join(root, "test.ts");
-      const result = createEsLintRunner().runEsLint(
+      const result = await createEsLintRunner().runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         {
@@ -206,24 +347,27 @@ describe("ESLintRunner", () => {
       expect(result.warnings.length).to.equal(1);
     });
 
-    it("should ignore no-unused-varaible rule", () => {
+    it("should report unused variables with no-unused-vars", async () => {
       const root = path.join(testDataRoot, "with-eslint");
       const filePath = path.join(root, "unused-variable.ts");
-      const result = createEsLintRunner().runEsLint(
+      const result = await createEsLintRunner().runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         defaultRunConfiguration
       );
 
-      expect(result.lintResult.errorCount).to.equal(0);
+      expect(result.lintResult.errorCount).to.equal(1);
+      expect(result.lintResult.results[0].messages[0].ruleId).to.equal(
+        "@typescript-eslint/no-unused-vars"
+      );
       expect(result.warnings.length).to.equal(0);
     });
 
-    it("should not return errors in js files by default", () => {
+    it("should not return errors in js files by default", async () => {
       const root = path.join(testDataRoot, "js-disabled");
       {
         const filePath = path.join(root, "test.mjs");
-        const result = createEsLintRunner().runEsLint(
+        const result = await createEsLintRunner().runEsLint(
           filePath,
           fs.readFileSync(filePath).toString(),
           defaultRunConfiguration
@@ -232,7 +376,7 @@ describe("ESLintRunner", () => {
       }
       {
         const filePath = path.join(root, "test.mjs");
-        const result = createEsLintRunner().runEsLint(
+        const result = await createEsLintRunner().runEsLint(
           filePath,
           fs.readFileSync(filePath).toString(),
           defaultRunConfiguration
@@ -241,33 +385,471 @@ describe("ESLintRunner", () => {
       }
     });
 
-    it("should support using a eslint.js config file", () => {
+    it("should support using a eslint.js config file", async () => {
       const root = path.join(testDataRoot, "with-eslint-js-config-file");
 
       const filePath = path.join(root, "test.ts");
-      const result = createEsLintRunner().runEsLint(
+      const result = await createEsLintRunner().runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         {
-          configFile: path.join(root, "eslint.js"),
           ...defaultRunConfiguration,
+          configFile: path.join(root, "eslint.js"),
+          // only the config file, not the eslintrc files of the repository
+          useEslintrc: false
         }
       );
       expect(result.lintResult.errorCount).to.equal(2);
+      expect(
+        result.lintResult.results[0].messages.map((x) => x.ruleId)
+      ).to.deep.equal(["@typescript-eslint/array-type", "quotes"]);
+      expect(result.configFilePaths).to.deep.equal([
+        path.join(root, "eslint.js")
+      ]);
+    });
+  });
+
+  describe("run configuration", () => {
+    const root = path.join(testDataRoot, "runner-options");
+    const filePath = path.join(root, "test.js");
+    const optionsRunConfiguration: RunConfiguration = {
+      ...defaultRunConfiguration,
+      jsEnable: true,
+      workspaceFolderPath: root
+    };
+
+    function lint(configuration: Partial<RunConfiguration>) {
+      return createEsLintRunner().runEsLint(
+        filePath,
+        fs.readFileSync(filePath).toString(),
+        { ...optionsRunConfiguration, ...configuration }
+      );
+    }
+
+    function ruleIds(result: RunResult) {
+      return result.lintResult.results[0].messages.map((x) => x.ruleId);
+    }
+
+    it("should use the configuration of the workspace by default", async () => {
+      const result = await lint({});
+      expect(ruleIds(result)).to.deep.equal(["no-var", "no-console"]);
+    });
+
+    it("should return the metadata of the rules with problems", async () => {
+      const result = await lint({});
+      expect(result.rulesMeta!["no-var"]).to.deep.include({
+        type: "suggestion",
+        docs: {
+          description: "require `let` or `const` instead of `var`",
+          category: "ECMAScript 6",
+          url: "https://eslint.org/docs/rules/no-var"
+        },
+        fixable: "code"
+      });
+      expect(Object.keys(result.rulesMeta!)).to.have.members([
+        "no-var",
+        "no-console"
+      ]);
+    });
+
+    it("should merge the configured config file", async () => {
+      const result = await lint({
+        configFile: path.join(root, "custom-config.json")
+      });
+      expect(ruleIds(result)).to.deep.equal([
+        "no-var",
+        "eqeqeq",
+        "no-console"
+      ]);
+    });
+
+    it("should not use eslintrc files if useEslintrc is false", async () => {
+      const result = await lint({
+        configFile: path.join(root, "custom-config.json"),
+        useEslintrc: false
+      });
+      expect(ruleIds(result)).to.deep.equal(["eqeqeq", "no-console"]);
+    });
+
+    it("should ignore inline configuration if allowInlineConfig is false", async () => {
+      const result = await lint({ allowInlineConfig: false });
+      expect(ruleIds(result)).to.deep.equal(["no-var"]);
+    });
+
+    it("should report unused disable directives", async () => {
+      const result = await lint({ reportUnusedDisableDirectives: true });
+      const messages = result.lintResult.results[0].messages;
+      expect(messages.length).to.equal(3);
+      expect(messages[2].ruleId).to.equal(null);
+      expect(messages[2].message).to.match(/Unused eslint-disable directive/);
+    });
+
+    it("should load rules from rulePaths", async () => {
+      const result = await lint({
+        configFile: path.join(root, "rule-paths-config.json"),
+        useEslintrc: false,
+        rulePaths: [path.join(root, "rules")]
+      });
+      expect(ruleIds(result)).to.deep.equal([
+        "no-variable-named-a",
+        "no-console"
+      ]);
+    });
+
+    it("should resolve plugins relative to resolvePluginsRelativeTo", async () => {
+      const configuration = {
+        configFile: path.join(root, "plugin-config.json"),
+        useEslintrc: false
+      };
+      const result = await lint(configuration);
+      expect(ruleIds(result)).to.deep.equal(["no-console"]);
+
+      let error: Error | undefined;
+      try {
+        await lint({
+          ...configuration,
+          resolvePluginsRelativeTo: os.tmpdir()
+        });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).to.not.equal(undefined);
+    });
+
+    it("should only lint files with the configured extensions", async () => {
+      const tsOnly = await lint({ extensions: [".ts"] });
+      expect(tsOnly.lintResult.errorCount).to.equal(0);
+
+      const jsOnly = await lint({ extensions: ["js"] });
+      expect(jsOnly.lintResult.errorCount).to.equal(2);
+    });
+
+    it("should use the configured ignore file", async () => {
+      const result = await lint({
+        ignorePath: path.join(root, "custom-ignore")
+      });
+      expect(result.lintResult.errorCount).to.equal(0);
+    });
+
+    it("should skip ignored files without warnings", async () => {
+      const traces: string[] = [];
+      const runner = new EsLintRunner((entry) => traces.push(entry.message));
+      const result = await runner.runEsLint(
+        filePath,
+        fs.readFileSync(filePath).toString(),
+        {
+          ...optionsRunConfiguration,
+          ignorePath: path.join(root, "custom-ignore"),
+          traceLevel: "verbose"
+        }
+      );
+      expect(result.lintResult.results).to.deep.equal([]);
+      expect(result.warnings).to.deep.equal([]);
+      expect(
+        traces.some((trace) =>
+          trace.includes(
+            `is ignored by the ignore file ${path.join(root, "custom-ignore")}`
+          )
+        )
+      ).to.equal(true);
+    });
+
+    it("should only trace when the trace level is verbose", async () => {
+      const traces: string[] = [];
+      const runner = new EsLintRunner((entry) => traces.push(entry.message));
+      const contents = fs.readFileSync(filePath).toString();
+
+      await runner.runEsLint(filePath, contents, {
+        ...optionsRunConfiguration,
+        traceLevel: "normal"
+      });
+      expect(traces.length).to.equal(0);
+
+      await runner.runEsLint(filePath, contents, {
+        ...optionsRunConfiguration,
+        traceLevel: "verbose"
+      });
+      expect(traces.length).to.not.equal(0);
+    });
+
+    it("should trace the file and the duration of linting", async () => {
+      const entries: LogEntry[] = [];
+      const runner = new EsLintRunner((entry) => entries.push(entry));
+
+      await runner.runEsLint(filePath, fs.readFileSync(filePath).toString(), {
+        ...optionsRunConfiguration,
+        traceLevel: "verbose"
+      });
+      const ended = entries.find((x) => x.message.includes("ended linting"));
+      expect(ended && ended.level).to.equal("verbose");
+      expect(ended && ended.fields && ended.fields.file).to.equal(filePath);
+      expect(ended && ended.fields && ended.fields.durationMs).to.be.a(
+        "number"
+      );
+    });
+
+    describe("without eslint configuration", () => {
+      let directory: string;
+      let unconfiguredFilePath: string;
+
+      beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "eslint-plugin-"));
+        unconfiguredFilePath = path.join(directory, "test.js");
+        fs.writeFileSync(unconfiguredFilePath, "var unused = 1;\n");
+      });
+
+      afterEach(() => {
+        fs.unlinkSync(unconfiguredFilePath);
+        fs.rmdirSync(directory);
+      });
+
+      function lintUnconfigured(configuration: Partial<RunConfiguration>) {
+        return createEsLintRunner().runEsLint(
+          unconfiguredFilePath,
+          fs.readFileSync(unconfiguredFilePath).toString(),
+          {
+            ...optionsRunConfiguration,
+            workspaceFolderPath: directory,
+            // eslint is not installed next to the file
+            nodePath: path.join(__dirname, "..", "..", "..", "node_modules"),
+            ...configuration
+          }
+        );
+      }
+
+      it("should load eslint from nodePath and not lint", async () => {
+        const result = await lintUnconfigured({});
+        expect(result.warnings.length).to.equal(0);
+        expect(result.lintResult.errorCount).to.equal(0);
+      });
+
+      it("should lint with the default configuration if validateWithDefaultConfig is set", async () => {
+        const result = await lintUnconfigured({
+          validateWithDefaultConfig: true
+        });
+        expect(ruleIds(result)).to.deep.equal(["no-unused-vars"]);
+      });
+    });
+  });
+
+  describe("type aware rules", () => {
+    it("should use the project config file when the parser has no project", async () => {
+      const root = path.join(testDataRoot, "typed-rules");
+      const filePath = path.join(root, "test.ts");
+      const result = await createEsLintRunner().runEsLint(
+        filePath,
+        fs.readFileSync(filePath).toString(),
+        {
+          ...defaultRunConfiguration,
+          workspaceFolderPath: root,
+          projectConfigFile: path.join(root, "tsconfig.json")
+        }
+      );
+
+      expect(result.lintResult.errorCount).to.equal(1);
       expect(result.lintResult.results[0].messages[0].ruleId).to.equal(
-        "array-type"
+        "@typescript-eslint/await-thenable"
+      );
+    });
+
+    describe("shared program", () => {
+      const root = path.join(testDataRoot, "shared-program");
+      const fakeParser: {
+        lastOptions?: { programs?: ts.Program[] };
+      } = require(path.join(root, "fake-parser.js"));
+
+      function lintProgram(parserDirectory: string) {
+        const filePath = path.join(root, parserDirectory, "test.ts");
+        const program = ts.createProgram([filePath], {});
+        fakeParser.lastOptions = undefined;
+        return {
+          program,
+          result: createEsLintRunner().runEsLint(filePath, program, {
+            ...defaultRunConfiguration,
+            workspaceFolderPath: root
+          })
+        };
+      }
+
+      it("should give the program to @typescript-eslint/parser", async () => {
+        const { program, result } = lintProgram("parser-5");
+
+        expect((await result).programShared).to.equal(true);
+        const programs = fakeParser.lastOptions!.programs!;
+        expect(programs.length).to.equal(1);
+        // eslint copies the parser options, the copy uses the same program
+        expect(programs[0].getTypeChecker).to.equal(program.getTypeChecker);
+        expect(programs[0].getSourceFile).to.equal(program.getSourceFile);
+      });
+
+      it("should not give the program to parsers without parserOptions.programs", async () => {
+        const { result } = lintProgram("parser-2");
+
+        expect((await result).programShared).to.equal(false);
+        expect(fakeParser.lastOptions!.programs).to.equal(undefined);
+      });
+    });
+  });
+
+  describe("configuration caches", () => {
+    const root = path.join(testDataRoot, "runner-options");
+    const filePath = path.join(root, "test.js");
+    const configuration: RunConfiguration = {
+      ...defaultRunConfiguration,
+      jsEnable: true,
+      workspaceFolderPath: root
+    };
+    const api: { CLIEngine: typeof eslint.CLIEngine } = eslint;
+    const cliEngine = api.CLIEngine;
+    let createdEngines = 0;
+
+    beforeEach(() => {
+      createdEngines = 0;
+      api.CLIEngine = class extends cliEngine {
+        public constructor(options: eslint.CLIEngine.Options) {
+          super(options);
+          ++createdEngines;
+        }
+      };
+    });
+
+    afterEach(() => {
+      api.CLIEngine = cliEngine;
+    });
+
+    it("should reuse the engine of earlier lints", async () => {
+      const runner = createEsLintRunner();
+      const contents = fs.readFileSync(filePath).toString();
+
+      await runner.runEsLint(filePath, contents, configuration);
+      expect(createdEngines).to.equal(1);
+
+      await runner.runEsLint(filePath, contents, configuration);
+      expect(createdEngines).to.equal(1);
+
+      runner.clearCaches();
+      await runner.runEsLint(filePath, contents, configuration);
+      expect(createdEngines).to.equal(2);
+    });
+
+    it("should read the config files of a directory again after clearing the caches", async () => {
+      const directory = fs.mkdtempSync(
+        path.join(os.tmpdir(), "eslint-plugin-")
+      );
+      const newFilePath = path.join(directory, "test.js");
+      const configFilePath = path.join(directory, ".eslintrc.json");
+      fs.writeFileSync(newFilePath, "var unused = 1;\n");
+      try {
+        const runner = createEsLintRunner();
+        const lint = () =>
+          runner.runEsLint(newFilePath, "var unused = 1;\n", {
+            ...configuration,
+            workspaceFolderPath: directory,
+            // eslint is not installed next to the file
+            nodePath: path.join(__dirname, "..", "..", "..", "node_modules")
+          });
+
+        expect((await lint()).configFilePaths).to.deep.equal([]);
+
+        fs.writeFileSync(configFilePath, '{ "root": true }');
+        expect((await lint()).configFilePaths).to.deep.equal([]);
+
+        runner.clearCaches();
+        expect((await lint()).configFilePaths).to.deep.equal([configFilePath]);
+      } finally {
+        for (const file of fs.readdirSync(directory)) {
+          fs.unlinkSync(path.join(directory, file));
+        }
+        fs.rmdirSync(directory);
+      }
+    });
+
+    it("should create one engine with the parser options of a file", async () => {
+      const typedRoot = path.join(testDataRoot, "typed-rules");
+      const typedFilePath = path.join(typedRoot, "test.ts");
+      const runner = createEsLintRunner();
+      const lint = () =>
+        runner.runEsLint(
+          typedFilePath,
+          fs.readFileSync(typedFilePath).toString(),
+          {
+            ...defaultRunConfiguration,
+            workspaceFolderPath: typedRoot,
+            projectConfigFile: path.join(typedRoot, "tsconfig.json")
+          }
+        );
+
+      await lint();
+      // the configuration is calculated before the parser options are known
+      expect(createdEngines).to.equal(2);
+
+      const result = await lint();
+      expect(createdEngines).to.equal(2);
+      expect(result.lintResult.errorCount).to.equal(1);
+    });
+  });
+
+  describe("diagnose", () => {
+    const workspacePath = path.join(testDataRoot, "monorepo");
+    const packageRoot = path.join(workspacePath, "packages", "a");
+    const configuration = {
+      ...defaultRunConfiguration,
+      jsEnable: true,
+      workspaceFolderPath: workspacePath
+    };
+
+    it("should report how eslint is resolved and configured", async () => {
+      const filePath = path.join(packageRoot, "src", "test.js");
+      const diagnosis = await createEsLintRunner().diagnose(
+        filePath,
+        configuration
+      );
+
+      expect(diagnosis.packageRoot).to.equal(packageRoot);
+      expect(diagnosis.resolution.resolvedFrom).to.equal("local");
+      expect(diagnosis.resolution.eslintPath).to.contain("eslint");
+      expect(diagnosis.eslint!.version).to.equal(new eslint.Linter().version);
+      expect(diagnosis.configFilePaths).to.contain(
+        path.join(packageRoot, ".eslintrc.json")
+      );
+      expect(diagnosis.hasConfiguration).to.equal(true);
+      expect(diagnosis.ignored).to.equal(undefined);
+      expect(diagnosis.excluded).to.equal(undefined);
+    });
+
+    it("should report why a file is ignored or excluded", async () => {
+      const runner = createEsLintRunner();
+      const ignored = await runner.diagnose(
+        path.join(packageRoot, "src", "ignored.js"),
+        configuration
+      );
+      expect(ignored.ignored).to.equal(
+        `the ignore file ${path.join(packageRoot, ".eslintignore")}`
+      );
+
+      const workspaceIgnored = await runner.diagnose(
+        path.join(packageRoot, "src", "generated.js"),
+        configuration
+      );
+      expect(workspaceIgnored.ignored).to.equal(
+        `the ignore file ${path.join(workspacePath, ".eslintignore")}`
       );
-      expect(result.lintResult.results[1].messages[0].ruleId).to.equal(
-        "quotemark"
+
+      const excluded = await runner.diagnose(
+        path.join(packageRoot, "src", "test.js"),
+        { ...configuration, exclude: ["packages/a/**"] }
+      );
+      expect(excluded.excluded).to.equal(
+        "it matches the 'exclude' pattern 'packages/a/**'"
       );
     });
   });
 
   describe("filterProblemsForFile", () => {
-    it("should filter out all problems not in file", () => {
+    it("should filter out all problems not in file", async () => {
       const runner = createEsLintRunner();
       const filePath = path.join(testDataRoot, "with-eslint", "test.ts");
-      const result = runner.runEsLint(
+      const result = await runner.runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         defaultRunConfiguration
@@ -284,30 +866,118 @@ describe("ESLintRunner", () => {
   });
 
   describe("getNonOverlappingReplacements", () => {
-    it("should filter out overlapping replacements", () => {
+    it("should filter out overlapping replacements", async () => {
       const runner = createEsLintRunner();
       const filePath = path.join(testDataRoot, "overlapping-errors", "test.ts");
-      const result = runner.runEsLint(
+      const result = await runner.runEsLint(
         filePath,
         fs.readFileSync(filePath).toString(),
         defaultRunConfiguration
       );
 
-      expect(result.lintResult.results.length).to.equal(2);
+      const messages = result.lintResult.results[0].messages;
+      expect(messages.map((x) => x.ruleId)).to.deep.equal([
+        "sort-imports",
+        "comma-dangle",
+        "quotes"
+      ]);
+
+      // the trailing comma is inserted at the end of the sorted imports
+      const noOverlappingReplacements = getNonOverlappingReplacements(messages);
+      expect(noOverlappingReplacements).to.deep.equal([
+        messages[0].fix,
+        messages[2].fix
+      ]);
+    });
 
-      const noOverlappingReplacements = getNonOverlappingReplacements(
-        result.lintResult.results.reduce<eslint.Linter.LintMessage[]>(
-          (r, m) => [...r, ...m.messages],
-          []
-        )
+    it("should fix all problems like eslint --fix", async () => {
+      const filePath = path.join(testDataRoot, "overlapping-errors", "test.ts");
+      const contents = fs.readFileSync(filePath).toString();
+      const result = await createEsLintRunner().runEsLint(filePath, contents, {
+        ...defaultRunConfiguration,
+        fixAll: {}
+      });
+
+      const expected = fixWithCLIEngine(filePath, contents, { fix: true });
+      expect(expected).to.not.equal(undefined);
+      expect(applyReplacements(contents, result.fixAllReplacements!)).to.equal(
+        expected
+      );
+      expect(result.lintResult.results).to.deep.equal([]);
+    });
+
+    it("should only fix the problems selected by the fix all options", async () => {
+      const filePath = path.join(testDataRoot, "overlapping-errors", "test.ts");
+      const contents = fs.readFileSync(filePath).toString();
+      const runner = createEsLintRunner();
+      const fixAll = async (fixAllOptions: FixAllOptions) => {
+        const result = await runner.runEsLint(filePath, contents, {
+          ...defaultRunConfiguration,
+          fixAll: fixAllOptions
+        });
+        return applyReplacements(contents, result.fixAllReplacements || []);
+      };
+
+      expect(await fixAll({ ruleId: "quotes" })).to.equal(
+        fixWithCLIEngine(filePath, contents, {
+          fix: (message) => message.ruleId === "quotes"
+        })
+      );
+      expect(await fixAll({ lines: { start: 1, end: 3 } })).to.equal(
+        fixWithCLIEngine(filePath, contents, {
+          fix: (message) => message.line <= 3
+        })
+      );
+      expect(await fixAll({ fixTypes: ["layout"] })).to.equal(
+        fixWithCLIEngine(filePath, contents, {
+          fix: true,
+          fixTypes: ["layout"]
+        })
       );
-      expect(noOverlappingReplacements.length).to.equal(1);
+      expect(await fixAll({ fixTypes: ["problem"] })).to.equal(contents);
+    });
+
+    it("should only compute the fixes of all problems when requested", async () => {
+      const filePath = path.join(testDataRoot, "overlapping-errors", "test.ts");
+      const result = await createEsLintRunner().runEsLint(
+        filePath,
+        fs.readFileSync(filePath).toString(),
+        defaultRunConfiguration
+      );
+
+      expect(result.fixAllReplacements).to.equal(undefined);
     });
   });
 });
 
+function applyReplacements(
+  text: string,
+  replacements: ReadonlyArray<eslint.Rule.Fix>
+): string {
+  return [...replacements]
+    .sort((a, b) => b.range[0] - a.range[0])
+    .reduce(
+      (result, { range, text: newText }) =>
+        result.slice(0, range[0]) + newText + result.slice(range[1]),
+      text
+    );
+}
+
+function fixWithCLIEngine(
+  filePath: string,
+  contents: string,
+  options: Pick<LintEngineOptions, "fix" | "fixTypes">
+): string | undefined {
+  const cliEngine = new eslint.CLIEngine({
+    cwd: path.dirname(filePath),
+    ...options
+  } as eslint.CLIEngine.Options);
+  const [result] = cliEngine.executeOnText(contents, filePath).results;
+  return result.output;
+}
+
 function createEsLintRunner() {
-  return new EsLintRunner((_value: string) => {
+  return new EsLintRunner(() => {
     /* noop */
   });
 }
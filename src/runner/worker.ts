@@ -0,0 +1,124 @@
+import { parentPort } from 'worker_threads';
+
+import { EsLintRunner } from './index';
+import {
+  DiagnoseRequest,
+  LintRequest,
+  SyncLintRequest,
+  WorkerRequest,
+  WorkerResponse
+} from './protocol';
+
+/**
+ * Entry point of a lint worker thread. Every worker owns its own runner and
+ * therefore its own cache of loaded eslint libraries.
+ */
+if (parentPort) {
+  const port = parentPort;
+  const post = (response: WorkerResponse): void => port.postMessage(response);
+
+  const runner = new EsLintRunner((entry) => {
+    post({ kind: "log", entry });
+  });
+
+  // eslint writes warnings using console.warn. The console of a worker is not
+  // shared with the tsserver thread, so it can be redirected once for the
+  // lifetime of the worker and attributed to the lint being processed.
+  let currentWarnings: string[] | undefined;
+  const originalConsoleWarn = console.warn;
+  console.warn = (message?: unknown): void => {
+    if (currentWarnings) {
+      currentWarnings.push(String(message));
+    } else {
+      originalConsoleWarn(message);
+    }
+  };
+
+  const runLint = async (
+    request: LintRequest | SyncLintRequest
+  ): Promise<WorkerResponse> => {
+    const warnings: string[] = [];
+    currentWarnings = warnings;
+    try {
+      const result = await runner.runEsLint(
+        request.filePath,
+        request.contents,
+        request.configuration
+      );
+      return {
+        kind: "result",
+        id: request.id,
+        result: {
+          ...result,
+          warnings: [...result.warnings, ...warnings]
+        }
+      };
+    } catch (err) {
+      return { kind: "error", id: request.id, message: getErrorMessage(err) };
+    } finally {
+      currentWarnings = undefined;
+    }
+  };
+
+  // Lints run one after the other, a synchronous lint can arrive while
+  // another lint waits for eslint and must not take over its warnings
+  let lintQueue: Promise<unknown> = Promise.resolve();
+  const lint = (
+    request: LintRequest | SyncLintRequest
+  ): Promise<WorkerResponse> => {
+    const response = lintQueue.then(() => runLint(request));
+    lintQueue = response;
+    return response;
+  };
+
+  const diagnose = async (
+    request: DiagnoseRequest
+  ): Promise<WorkerResponse> => {
+    try {
+      const diagnosis = await runner.diagnose(
+        request.filePath,
+        request.configuration
+      );
+      return { kind: "diagnosis", id: request.id, diagnosis };
+    } catch (err) {
+      return { kind: "error", id: request.id, message: getErrorMessage(err) };
+    }
+  };
+
+  // the tsserver thread is blocked until the signal is notified
+  const respond = (
+    request: SyncLintRequest,
+    response: WorkerResponse
+  ): void => {
+    request.port.postMessage(response);
+    request.port.close();
+    const signal = new Int32Array(request.signal);
+    Atomics.store(signal, 0, 1);
+    Atomics.notify(signal, 0, 1);
+  };
+
+  port.on("message", (request: WorkerRequest) => {
+    switch (request.kind) {
+      case "lint":
+        lint(request).then(post);
+        return;
+
+      case "syncLint":
+        lint(request).then((response) => respond(request, response));
+        return;
+
+      case "diagnose":
+        diagnose(request).then(post);
+        return;
+
+      case "clearCaches":
+        runner.clearCaches();
+        return;
+    }
+  });
+}
+
+function getErrorMessage(err: unknown): string {
+  const message = err && (err as { message?: unknown }).message;
+  return message ? String(message) : String(err);
+}
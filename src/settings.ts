@@ -1,8 +1,11 @@
+import * as minimatch from 'minimatch';
 import * as path from 'path'
 import * as ts_module from 'typescript/lib/tsserverlibrary'
 
-import { pluginId } from './config'
+import { ESLINT_ERROR_CODE, ESLINT_ERROR_SOURCE, pluginId } from './config';
+import { DiagnosticTag } from './diagnosticTags';
 import { Logger } from './logger'
+import { TraceLevel } from './runner/log';
 
 /**
  * Settings for the plugin section in tsconfig.json
@@ -15,48 +18,469 @@ export interface Configuration {
   readonly jsEnable: boolean;
   readonly exclude?: string | string[];
   readonly packageManager?: string;
+  readonly shareProgram: boolean;
+  readonly useEslintrc?: boolean;
+  readonly allowInlineConfig?: boolean;
+  readonly reportUnusedDisableDirectives?: boolean;
+  readonly nodePath?: string;
+  readonly validateWithDefaultConfig?: boolean;
+  readonly traceLevel?: TraceLevel;
+  /**
+   * File the plugin writes its log to, in addition to the tsserver log
+   */
+  readonly logFile?: string;
+  readonly workspaceFolderPath?: string;
+  readonly rulePaths?: string[];
+  readonly resolvePluginsRelativeTo?: string;
+  readonly extensions?: string[];
+  readonly ignorePath?: string;
+  readonly disableRuleCommentDescription?: string;
+  /**
+   * Append the documentation URL of the rule to the diagnostic messages
+   */
+  readonly appendRuleDocsUrl?: boolean;
+  /**
+   * Diagnostic category of rules by rule id or glob pattern, like `import/*`
+   */
+  readonly ruleSeverityOverrides?: { readonly [rule: string]: RuleSeverity };
+  /**
+   * Tag of the diagnostics of rules by rule id or glob pattern, replacing the
+   * built-in tags of well-known rules
+   */
+  readonly ruleDiagnosticTags?: { readonly [rule: string]: DiagnosticTag };
+  /**
+   * Report linting a file that takes longer than this many milliseconds
+   */
+  readonly maxLintDurationMs?: number;
+  /**
+   * Lint files that exceeded `maxLintDurationMs` without the rules that
+   * require type information
+   */
+  readonly skipTypeAwareRulesWhenSlow?: boolean;
+  /**
+   * Settings that apply to the files matching glob patterns, later overrides
+   * take precedence
+   */
+  readonly overrides?: ConfigurationOverride[];
 }
 
+export type ConfigurationOverride = {
+  /**
+   * Glob patterns relative to the project root
+   */
+  readonly files: string | string[];
+} & Partial<Omit<Configuration, "overrides" | ProjectSetting>>;
+
+/**
+ * Settings of the whole project that overrides can not change
+ */
+type ProjectSetting =
+  | "shareProgram"
+  | "traceLevel"
+  | "logFile"
+  | "workspaceFolderPath";
+
+export type RuleSeverity =
+  | "error"
+  | "warning"
+  | "suggestion"
+  | "message"
+  | "off";
+
+// "object" settings map names to strings
+type SettingType =
+  | "boolean"
+  | "number"
+  | "string"
+  | "string[]"
+  | "object"
+  | "object[]";
+
+interface SettingSchema {
+  readonly types: ReadonlyArray<SettingType>;
+  /**
+   * Allowed values of string settings and of the properties of object
+   * settings, compared case insensitively
+   */
+  readonly values?: ReadonlyArray<string>;
+  /**
+   * The setting applies to the whole project and is rejected in overrides
+   */
+  readonly project?: boolean;
+}
+
+const configurationSchema: {
+  readonly [K in keyof Configuration]-?: SettingSchema;
+} = {
+  alwaysShowRuleFailuresAsWarnings: { types: ["boolean"] },
+  ignoreDefinitionFiles: { types: ["boolean"] },
+  configFile: { types: ["string"] },
+  suppressWhileTypeErrorsPresent: { types: ["boolean"] },
+  jsEnable: { types: ["boolean"] },
+  exclude: { types: ["string", "string[]"] },
+  packageManager: { types: ["string"], values: ["npm", "pnpm", "yarn"] },
+  shareProgram: { types: ["boolean"], project: true },
+  useEslintrc: { types: ["boolean"] },
+  allowInlineConfig: { types: ["boolean"] },
+  reportUnusedDisableDirectives: { types: ["boolean"] },
+  nodePath: { types: ["string"] },
+  validateWithDefaultConfig: { types: ["boolean"] },
+  traceLevel: {
+    types: ["string"],
+    values: ["error", "warn", "info", "verbose", "normal"],
+    project: true
+  },
+  logFile: { types: ["string"], project: true },
+  workspaceFolderPath: { types: ["string"], project: true },
+  rulePaths: { types: ["string[]"] },
+  resolvePluginsRelativeTo: { types: ["string"] },
+  extensions: { types: ["string[]"] },
+  ignorePath: { types: ["string"] },
+  disableRuleCommentDescription: { types: ["string"] },
+  appendRuleDocsUrl: { types: ["boolean"] },
+  ruleSeverityOverrides: {
+    types: ["object"],
+    values: ["error", "warning", "suggestion", "message", "off"]
+  },
+  ruleDiagnosticTags: {
+    types: ["object"],
+    values: ["unnecessary", "deprecated", "none"]
+  },
+  maxLintDurationMs: { types: ["number"] },
+  skipTypeAwareRulesWhenSlow: { types: ["boolean"] },
+  overrides: { types: ["object[]"] }
+};
+
+/**
+ * Find the severity configured for a rule in `ruleSeverityOverrides`. A rule id
+ * takes precedence over glob patterns, patterns are tried in the order they
+ * are written.
+ */
+export function getRuleSeverityOverride(
+  overrides: Configuration["ruleSeverityOverrides"],
+  ruleId: string | null
+): RuleSeverity | undefined {
+  if (!overrides || !ruleId) {
+    return undefined;
+  }
+  if (Object.prototype.hasOwnProperty.call(overrides, ruleId)) {
+    return overrides[ruleId].toLowerCase() as RuleSeverity;
+  }
+  for (const pattern of Object.keys(overrides)) {
+    if (minimatch(ruleId, pattern)) {
+      return overrides[pattern].toLowerCase() as RuleSeverity;
+    }
+  }
+  return undefined;
+}
+
+// keys of the plugin entry that are used by TypeScript itself
+const reservedSettings = ["name"];
+
+/**
+ * A mistake in the plugin settings
+ */
+export interface ConfigurationProblem {
+  /**
+   * The setting with the problem, undefined if the settings are not an object
+   */
+  readonly setting?: string;
+  readonly message: string;
+}
+
+/**
+ * Validate plugin settings against the configuration schema. Settings with
+ * problems are left out of the returned configuration, so that their default
+ * is used instead.
+ */
+export function validateConfiguration(
+  config: unknown
+): { configuration: Partial<Configuration>, problems: ConfigurationProblem[] } {
+  return validateSettings(config);
+}
+
+/**
+ * Validate settings, the settings of an override are named with the given
+ * prefix in messages and reported on the `overrides` setting
+ */
+function validateSettings(
+  config: unknown,
+  override?: { readonly prefix: string }
+): { configuration: Partial<Configuration>, problems: ConfigurationProblem[] } {
+  const problems: ConfigurationProblem[] = [];
+  const configuration: { [key: string]: unknown } = {};
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    problems.push({ message: `Expected the plugin settings to be an object` });
+    return { configuration, problems };
+  }
+
+  const knownSettings = Object.keys(configurationSchema);
+  for (const key of Object.keys(config)) {
+    const value = (config as { [key: string]: unknown })[key];
+    if (reservedSettings.indexOf(key) !== -1) {
+      continue;
+    }
+
+    const setting = override ? "overrides" : key;
+    const name = override ? `${override.prefix}${key}` : key;
+    const schema: SettingSchema | undefined = (configurationSchema as {
+      [key: string]: SettingSchema;
+    })[key];
+    if (!schema || (override && key === "overrides")) {
+      const suggestion = findClosest(key, knownSettings);
+      problems.push({
+        setting,
+        message:
+          suggestion && suggestion !== key
+            ? `Unknown setting '${name}'. Did you mean '${suggestion}'?`
+            : `Unknown setting '${name}'.`
+      });
+      continue;
+    }
+    if (override && schema.project) {
+      problems.push({
+        setting,
+        message: `Setting '${name}' applies to the whole project and can not be overridden.`
+      });
+      continue;
+    }
+
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (!schema.types.some((type) => isOfType(value, type))) {
+      problems.push({
+        setting,
+        message: `Setting '${name}' must be of type ${schema.types.join(
+          " or "
+        )}, but is ${describeType(value)}.`
+      });
+      continue;
+    }
+    if (schema.values) {
+      const invalid = findInvalidValue(name, value, schema.values);
+      if (invalid) {
+        problems.push({
+          setting,
+          message: `Setting '${invalid.name}' must be one of ${schema.values
+            .map((x) => `'${x}'`)
+            .join(", ")}, but is '${invalid.value}'.`
+        });
+        continue;
+      }
+    }
+    if (key === "overrides") {
+      configuration[key] = validateOverrides(value as object[], problems);
+      continue;
+    }
+    configuration[key] = value;
+  }
+
+  return { configuration: configuration as Partial<Configuration>, problems };
+}
+
+/**
+ * Validate the settings of every override, overrides without valid `files`
+ * are left out
+ */
+function validateOverrides(
+  overrides: object[],
+  problems: ConfigurationProblem[]
+): ConfigurationOverride[] {
+  const result: ConfigurationOverride[] = [];
+  overrides.forEach((entry, index) => {
+    const prefix = `overrides[${index}].`;
+    const { files, ...settings } = entry as { [key: string]: unknown };
+    if (!isOfType(files, "string") && !isOfType(files, "string[]")) {
+      problems.push({
+        setting: "overrides",
+        message: `Setting '${prefix}files' must be of type string or string[], but is ${
+          files === undefined ? "missing" : describeType(files)
+        }.`
+      });
+      return;
+    }
+    const validated = validateSettings(settings, { prefix });
+    problems.push(...validated.problems);
+    result.push({
+      ...validated.configuration,
+      files: files as string | string[]
+    });
+  });
+  return result;
+}
+
+function isOfType(value: unknown, type: SettingType): boolean {
+  switch (type) {
+    case "string[]":
+      return (
+        Array.isArray(value) && value.every((x) => typeof x === "string")
+      );
+    case "object":
+      return (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.keys(value).every(
+          (x) => typeof (value as { [key: string]: unknown })[x] === "string"
+        )
+      );
+    case "object[]":
+      return (
+        Array.isArray(value) &&
+        value.every(
+          (x) => typeof x === "object" && x !== null && !Array.isArray(x)
+        )
+      );
+    default:
+      return typeof value === type;
+  }
+}
+
+function findInvalidValue(
+  setting: string,
+  value: unknown,
+  allowedValues: ReadonlyArray<string>
+): { name: string, value: string } | undefined {
+  const isAllowed = (x: string) =>
+    allowedValues.indexOf(x.toLowerCase()) !== -1;
+  if (typeof value === "string") {
+    return isAllowed(value) ? undefined : { name: setting, value };
+  }
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    for (const key of Object.keys(value)) {
+      const property = (value as { [key: string]: string })[key];
+      if (!isAllowed(property)) {
+        return { name: `${setting}.${key}`, value: property };
+      }
+    }
+  }
+  return undefined;
+}
+
+function describeType(value: unknown): string {
+  return Array.isArray(value) ? "an array" : `of type ${typeof value}`;
+}
+
+/**
+ * Find the known name closest to a misspelled one
+ */
+function findClosest(
+  name: string,
+  candidates: ReadonlyArray<string>
+): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(name.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; ++i) {
+    const current = [i];
+    for (let j = 1; j <= b.length; ++j) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// settings with a file path, relative paths are relative to the project root
+const pathSettings = [
+  "configFile",
+  "nodePath",
+  "workspaceFolderPath",
+  "resolvePluginsRelativeTo",
+  "ignorePath",
+  "logFile"
+] as const;
+
+/**
+ * Combines the settings of the plugin entry in tsconfig.json with the ones
+ * the editor sends, which take precedence over them. Both are applied on top
+ * of the defaults.
+ */
 export class ConfigurationManager {
   private static readonly defaultConfig: Configuration = {
     alwaysShowRuleFailuresAsWarnings: true,
     ignoreDefinitionFiles: true,
     jsEnable: false,
     suppressWhileTypeErrorsPresent: false,
+    shareProgram: false
   };
 
   private readonly _configUpdatedListeners = new Set<() => void>();
 
   private _workingDirectory?: string;
   private _watcher?: ts_module.FileWatcher;
+  private _logger?: Logger;
+
+  private _tsConfigSettings: Partial<Configuration> = {};
+  private _editorSettings: Partial<Configuration> = {};
 
   public get config(): Configuration {
     return this._configuration;
   }
   private _configuration: Configuration = ConfigurationManager.defaultConfig;
 
+  /**
+   * Problems found in the plugin settings of tsconfig.json
+   */
+  public get problems(): ReadonlyArray<ConfigurationProblem> {
+    return this._problems;
+  }
+  private _problems: ReadonlyArray<ConfigurationProblem> = [];
+
   public constructor(private readonly _ts: typeof ts_module) {}
 
-  public updateFromPluginConfig(config: Configuration) {
-    const configFile =
-      config.configFile &&
-      !path.isAbsolute(config.configFile) &&
-      this._workingDirectory
-        ? path.join(this._workingDirectory, config.configFile)
-        : config.configFile;
+  /**
+   * Update the settings of the plugin entry in tsconfig.json
+   */
+  public updateFromPluginConfig(pluginConfig: unknown) {
+    const { configuration, problems } = validateConfiguration(pluginConfig);
+    this._tsConfigSettings = configuration;
+    this._problems = problems;
+    this.update(problems);
+  }
 
-    this._configuration = {
-      ...ConfigurationManager.defaultConfig,
-      ...config,
-      configFile,
-    };
+  /**
+   * Update the settings sent by the editor
+   */
+  public updateFromEditorConfig(editorConfig: unknown) {
+    const { configuration, problems } = validateConfiguration(editorConfig);
+    this._editorSettings = configuration;
+    this.update(problems);
+  }
 
-    for (const listener of this._configUpdatedListeners) {
-      listener();
+  /**
+   * Get the configuration of a file, with the settings of the overrides
+   * whose patterns match it
+   */
+  public getConfigForFile(fileName: string): Configuration {
+    let config = this._configuration;
+    for (const override of this._configuration.overrides || []) {
+      const { files, ...settings } = override;
+      if (this.matchesFiles(fileName, files)) {
+        config = { ...config, ...settings };
+      }
     }
+    return config;
   }
 
   public setProject(project: ts_module.server.Project, logger: Logger) {
+    this._logger = logger;
     if (this._watcher) {
       this._watcher.close();
       this._watcher = undefined;
@@ -79,7 +503,9 @@ export class ConfigurationManager {
             return;
           }
 
-          logger.info("ConfigurationManager: file changed");
+          logger.info("ConfigurationManager: file changed", {
+            file: configFile
+          });
 
           const newConfig = loadSettingsFromTsConfig(
             this._ts,
@@ -87,11 +513,11 @@ export class ConfigurationManager {
             logger
           );
           if (!newConfig) {
-            logger.info(`ConfigurationManager: Could not read new config`);
+            logger.warn(`ConfigurationManager: Could not read new config`);
             return;
           }
 
-          logger.info(
+          logger.verbose(
             `ConfigurationManager: Updating config settings: ${JSON.stringify(
               newConfig
             )}`
@@ -101,12 +527,90 @@ export class ConfigurationManager {
       );
     }
 
+    // relative paths are resolved again relative to the new project root
     this._workingDirectory = project.getCurrentDirectory();
-    this.updateFromPluginConfig(this.config);
+    this.update([]);
   }
 
-  public onUpdatedConfig(listener: () => void) {
+  /**
+   * Listen to configuration updates, returns a function that stops listening
+   */
+  public onUpdatedConfig(listener: () => void): () => void {
     this._configUpdatedListeners.add(listener);
+    return () => {
+      this._configUpdatedListeners.delete(listener);
+    };
+  }
+
+  private update(problems: ReadonlyArray<ConfigurationProblem>) {
+    const tsConfigSettings = this.resolvePaths(this._tsConfigSettings);
+    const editorSettings = this.resolvePaths(this._editorSettings);
+    const overrides = [
+      ...(tsConfigSettings.overrides || []),
+      ...(editorSettings.overrides || [])
+    ].map((x) => this.resolvePaths(x));
+
+    this._configuration = {
+      ...ConfigurationManager.defaultConfig,
+      ...tsConfigSettings,
+      ...editorSettings,
+      overrides: overrides.length > 0 ? overrides : undefined
+    };
+
+    if (this._logger) {
+      this._logger.configure(this._configuration);
+      for (const problem of problems) {
+        this._logger.warn(
+          `ConfigurationManager: Invalid plugin settings: ${problem.message}`,
+          { setting: problem.setting }
+        );
+      }
+    }
+
+    for (const listener of this._configUpdatedListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Resolve the relative paths of the settings relative to the project root.
+   * Settings that are not set stay unset, so that they do not replace the
+   * ones of a lower layer.
+   */
+  private resolvePaths<T extends Partial<Configuration>>(config: T): T {
+    const resolved: { [key: string]: unknown } = { ...config };
+    for (const key of pathSettings) {
+      if (config[key] !== undefined) {
+        resolved[key] = this.resolvePath(config[key]);
+      }
+    }
+    if (config.rulePaths) {
+      resolved.rulePaths = config.rulePaths.map((x) => this.resolvePath(x) || x);
+    }
+    return resolved as T;
+  }
+
+  /**
+   * Resolve a relative file path relative to the project root
+   */
+  private resolvePath(filePath: string | undefined): string | undefined {
+    return filePath && !path.isAbsolute(filePath) && this._workingDirectory
+      ? path.join(this._workingDirectory, filePath)
+      : filePath;
+  }
+
+  /**
+   * Match a file against glob patterns relative to the project root
+   */
+  private matchesFiles(fileName: string, files: string | string[]): boolean {
+    const relativePath = this._workingDirectory
+      ? path.relative(this._workingDirectory, fileName)
+      : fileName;
+    return (Array.isArray(files) ? files : [files]).some(
+      (pattern) =>
+        minimatch(relativePath, pattern, { dot: true }) ||
+        minimatch(fileName, pattern, { dot: true })
+    );
   }
 }
 
@@ -117,7 +621,7 @@ export function loadSettingsFromTsConfig(
 ): Configuration | undefined {
   const configFileResult = ts.readConfigFile(configFilePath, ts.sys.readFile);
   if (configFileResult.error || !configFileResult.config) {
-    logger.info(
+    logger.warn(
       `ConfigurationManager: Could not read new config: ${configFileResult.error}`
     );
     return undefined;
@@ -127,7 +631,7 @@ export function loadSettingsFromTsConfig(
     !configFileResult.config.compilerOptions ||
     !Array.isArray(configFileResult.config.compilerOptions.plugins)
   ) {
-    logger.info(`ConfigurationManager: Could not read new config plugins`);
+    logger.warn(`ConfigurationManager: Could not read new config plugins`);
 
     return undefined;
   }
@@ -135,7 +639,7 @@ export function loadSettingsFromTsConfig(
   const pluginSettings = (configFileResult.config.compilerOptions
     .plugins as any[]).find((x) => x.name === pluginId);
   if (!pluginSettings) {
-    logger.info(
+    logger.warn(
       `ConfigurationManager: Could not read new config eslint-plugin`
     );
     return undefined;
@@ -143,3 +647,90 @@ export function loadSettingsFromTsConfig(
 
   return pluginSettings;
 }
+
+/**
+ * Create warnings for the problems in the plugin settings, located on the
+ * plugin entry in tsconfig.json or jsconfig.json.
+ */
+export function getConfigurationDiagnostics(
+  ts: typeof ts_module,
+  configFilePath: string,
+  problems: ReadonlyArray<ConfigurationProblem>
+): ts_module.Diagnostic[] {
+  if (problems.length === 0) {
+    return [];
+  }
+
+  const file = ts.readJsonConfigFile(configFilePath, ts.sys.readFile);
+  const pluginEntry = findPluginEntry(ts, file);
+
+  return problems.map((problem) => {
+    const node =
+      (pluginEntry &&
+        problem.setting &&
+        findProperty(ts, pluginEntry, problem.setting)) ||
+      pluginEntry;
+    return {
+      file,
+      start: node ? node.getStart(file) : 0,
+      length: node ? node.getWidth(file) : 0,
+      category: ts.DiagnosticCategory.Warning,
+      source: ESLINT_ERROR_SOURCE,
+      code: ESLINT_ERROR_CODE,
+      messageText: `${pluginId}: ${problem.message}`
+    };
+  });
+}
+
+function findPluginEntry(
+  ts: typeof ts_module,
+  file: ts_module.TsConfigSourceFile
+): ts_module.ObjectLiteralExpression | undefined {
+  const root = file.statements[0] && file.statements[0].expression;
+  if (!root || !ts.isObjectLiteralExpression(root)) {
+    return undefined;
+  }
+  const compilerOptions = findProperty(ts, root, "compilerOptions");
+  if (
+    !compilerOptions ||
+    !ts.isObjectLiteralExpression(compilerOptions.initializer)
+  ) {
+    return undefined;
+  }
+  const plugins = findProperty(ts, compilerOptions.initializer, "plugins");
+  if (!plugins || !ts.isArrayLiteralExpression(plugins.initializer)) {
+    return undefined;
+  }
+
+  for (const element of plugins.initializer.elements) {
+    if (!ts.isObjectLiteralExpression(element)) {
+      continue;
+    }
+    const name = findProperty(ts, element, "name");
+    if (
+      name &&
+      ts.isStringLiteral(name.initializer) &&
+      name.initializer.text === pluginId
+    ) {
+      return element;
+    }
+  }
+  return undefined;
+}
+
+function findProperty(
+  ts: typeof ts_module,
+  object: ts_module.ObjectLiteralExpression,
+  name: string
+): ts_module.PropertyAssignment | undefined {
+  for (const property of object.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      (ts.isStringLiteral(property.name) || ts.isIdentifier(property.name)) &&
+      property.name.text === name
+    ) {
+      return property;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,157 @@
+import 'mocha';
+
+import { expect } from 'chai';
+import * as ts from 'typescript/lib/tsserverlibrary';
+
+import { getRuleConfigTextChange, RuleConfigEdit } from '../configEdits';
+
+function editConfig(
+  fileName: string,
+  text: string,
+  edit: Partial<RuleConfigEdit> = {}
+): string | undefined {
+  const change = getRuleConfigTextChange(ts, `/project/${fileName}`, text, {
+    ruleId: "no-console",
+    severity: "off",
+    ...edit
+  });
+  if (!change) {
+    return undefined;
+  }
+  return (
+    text.slice(0, change.span.start) +
+    change.newText +
+    text.slice(change.span.start + change.span.length)
+  );
+}
+
+describe("getRuleConfigTextChange", () => {
+  describe("json", () => {
+    it("should add the rule to the rules", () => {
+      expect(
+        editConfig(
+          ".eslintrc.json",
+          '{\n  "rules": {\n    "semi": "error"\n  }\n}\n'
+        )
+      ).to.equal(
+        '{\n  "rules": {\n    "semi": "error",\n    "no-console": "off"\n  }\n}\n'
+      );
+    });
+
+    it("should change the severity and keep the options", () => {
+      expect(
+        editConfig(
+          ".eslintrc.json",
+          '{\n  "rules": {\n    "no-console": ["error", { "allow": ["warn"] }]\n  }\n}\n',
+          { severity: "warn" }
+        )
+      ).to.equal(
+        '{\n  "rules": {\n    "no-console": ["warn", { "allow": ["warn"] }]\n  }\n}\n'
+      );
+    });
+
+    it("should add the rules", () => {
+      expect(
+        editConfig(".eslintrc.json", '{\n\t"root": true\n}\n')
+      ).to.equal(
+        '{\n\t"root": true,\n\t"rules": {\n\t\t"no-console": "off"\n\t}\n}\n'
+      );
+    });
+
+    it("should fill an empty object", () => {
+      expect(editConfig(".eslintrc", '{ "rules": {} }')).to.equal(
+        '{ "rules": {\n  "no-console": "off"\n} }'
+      );
+    });
+
+    it("should add an overrides block", () => {
+      expect(
+        editConfig(".eslintrc.json", '{\n  "root": true\n}\n', {
+          files: ["src/a.ts"]
+        })
+      ).to.equal(
+        '{\n  "root": true,\n  "overrides": [\n    {\n      "files": ["src/a.ts"],\n      "rules": {\n        "no-console": "off"\n      }\n    }\n  ]\n}\n'
+      );
+    });
+
+    it("should append to the overrides", () => {
+      expect(
+        editConfig(
+          ".eslintrc.json",
+          '{\n  "overrides": [\n    { "files": ["*.js"] }\n  ]\n}\n',
+          { files: ["src/a.ts"] }
+        )
+      ).to.equal(
+        '{\n  "overrides": [\n    { "files": ["*.js"] },\n    {\n      "files": ["src/a.ts"],\n      "rules": {\n        "no-console": "off"\n      }\n    }\n  ]\n}\n'
+      );
+    });
+
+    it("should edit the eslintConfig of a package.json", () => {
+      expect(
+        editConfig(
+          "package.json",
+          '{\n  "name": "a",\n  "eslintConfig": {\n    "root": true\n  }\n}\n'
+        )
+      ).to.equal(
+        '{\n  "name": "a",\n  "eslintConfig": {\n    "root": true,\n    "rules": {\n      "no-console": "off"\n    }\n  }\n}\n'
+      );
+    });
+  });
+
+  describe("js", () => {
+    it("should match the quotes and trailing commas", () => {
+      expect(
+        editConfig(
+          ".eslintrc.js",
+          "module.exports = {\n  rules: {\n    semi: 'error',\n  },\n};\n"
+        )
+      ).to.equal(
+        "module.exports = {\n  rules: {\n    semi: 'error',\n    'no-console': 'off',\n  },\n};\n"
+      );
+    });
+
+    it("should not edit configs that are not an object literal", () => {
+      expect(
+        editConfig(".eslintrc.js", "module.exports = require('./base');\n")
+      ).to.equal(undefined);
+    });
+  });
+
+  describe("yaml", () => {
+    it("should add the rule to the rules", () => {
+      expect(
+        editConfig(".eslintrc.yml", "root: true\nrules:\n  semi: error\n")
+      ).to.equal("root: true\nrules:\n  semi: error\n  no-console: off\n");
+    });
+
+    it("should change the severity and keep the options", () => {
+      expect(
+        editConfig(
+          ".eslintrc.yaml",
+          "rules:\n  no-console: ['error', { allow: [warn] }]\nenv:\n  node: true\n",
+          { severity: "warn" }
+        )
+      ).to.equal(
+        "rules:\n  no-console: [warn, { allow: [warn] }]\nenv:\n  node: true\n"
+      );
+    });
+
+    it("should add an overrides block", () => {
+      expect(
+        editConfig(".eslintrc.yaml", "root: true", { files: ["src/a.ts"] })
+      ).to.equal(
+        'root: true\noverrides:\n  - files: ["src/a.ts"]\n    rules:\n      no-console: off\n'
+      );
+    });
+
+    it("should quote rule ids of plugins", () => {
+      expect(
+        editConfig(".eslintrc.yaml", "rules:\n  semi: error\n", {
+          ruleId: "@typescript-eslint/no-explicit-any"
+        })
+      ).to.equal(
+        'rules:\n  semi: error\n  "@typescript-eslint/no-explicit-any": off\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import 'mocha';
+
+import { expect } from 'chai';
+import * as ts from 'typescript/lib/tsserverlibrary';
+
+import { ConfigFileWatcher } from '../configFileWatcher';
+
+function createFakeTs() {
+  const watchedFiles = new Map<string, (fileName: string) => void>();
+  const watchedDirectories = new Map<string, (fileName: string) => void>();
+  const watch = (
+    watched: Map<string, (fileName: string) => void>,
+    path: string,
+    callback: (fileName: string) => void
+  ): ts.FileWatcher => {
+    expect(watched.has(path)).to.equal(false);
+    watched.set(path, callback);
+    return { close: () => watched.delete(path) };
+  };
+  const fakeTs = {
+    ...ts,
+    sys: {
+      ...ts.sys,
+      watchFile: (path: string, callback: (fileName: string) => void) =>
+        watch(watchedFiles, path, callback),
+      watchDirectory: (path: string, callback: (fileName: string) => void) =>
+        watch(watchedDirectories, path, callback)
+    }
+  } as typeof ts;
+  return { fakeTs, watchedFiles, watchedDirectories };
+}
+
+describe("ConfigFileWatcher", () => {
+  it("should only watch the cascades of the linted files", () => {
+    const { fakeTs, watchedFiles, watchedDirectories } = createFakeTs();
+    const watcher = new ConfigFileWatcher(fakeTs, () => undefined);
+
+    watcher.setCascade(
+      "/project/a/test.ts",
+      ["/project/a/.eslintrc.json", "/project/.eslintrc.json"],
+      ["/project/a", "/project"]
+    );
+    watcher.setCascade(
+      "/project/b/test.ts",
+      ["/project/.eslintrc.json"],
+      ["/project/b", "/project"]
+    );
+    expect([...watchedFiles.keys()]).to.have.members([
+      "/project/a/.eslintrc.json",
+      "/project/.eslintrc.json"
+    ]);
+    expect([...watchedDirectories.keys()]).to.have.members([
+      "/project/a",
+      "/project/b",
+      "/project"
+    ]);
+
+    watcher.setCascade(
+      "/project/a/test.ts",
+      ["/project/.eslintrc.json"],
+      ["/project/a", "/project"]
+    );
+    watcher.setCascade("/project/b/test.ts", [], ["/project"]);
+    expect([...watchedFiles.keys()]).to.deep.equal(["/project/.eslintrc.json"]);
+    expect([...watchedDirectories.keys()]).to.have.members([
+      "/project/a",
+      "/project"
+    ]);
+
+    watcher.dispose();
+    expect(watchedFiles.size).to.equal(0);
+    expect(watchedDirectories.size).to.equal(0);
+  });
+
+  it("should report changed and created config files", () => {
+    const { fakeTs, watchedFiles, watchedDirectories } = createFakeTs();
+    const changes: string[] = [];
+    const watcher = new ConfigFileWatcher(fakeTs, (fileName) =>
+      changes.push(fileName)
+    );
+    watcher.setCascade(
+      "/project/a/test.ts",
+      ["/project/.eslintrc.json"],
+      ["/project/a", "/project"]
+    );
+
+    watchedFiles.get("/project/.eslintrc.json")!("/project/.eslintrc.json");
+    watchedDirectories.get("/project/a")!("/project/a/.eslintrc.js");
+    watchedDirectories.get("/project/a")!("/project/a/test.ts");
+    // reported by the watcher of the file
+    watchedDirectories.get("/project")!("/project/.eslintrc.json");
+
+    expect(changes).to.deep.equal([
+      "/project/.eslintrc.json",
+      "/project/a/.eslintrc.js"
+    ]);
+  });
+});
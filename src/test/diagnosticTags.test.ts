@@ -0,0 +1,37 @@
+import 'mocha';
+
+import { expect } from 'chai';
+
+import { getRuleDiagnosticTag } from '../diagnosticTags';
+
+describe("getRuleDiagnosticTag", () => {
+  it("should tag well-known rules", () => {
+    expect(
+      getRuleDiagnosticTag(undefined, "@typescript-eslint/no-unused-vars")
+    ).to.equal("unnecessary");
+    expect(getRuleDiagnosticTag(undefined, "import/no-deprecated")).to.equal(
+      "deprecated"
+    );
+    expect(getRuleDiagnosticTag(undefined, "semi")).to.equal("none");
+    expect(getRuleDiagnosticTag(undefined, null)).to.equal("none");
+  });
+
+  it("should prefer configured tags over built-in ones", () => {
+    const tags = {
+      "no-unused-vars": "none",
+      "my-plugin/*": "Deprecated",
+      "my-plugin/no-dead-code": "unnecessary"
+    };
+
+    expect(getRuleDiagnosticTag(tags, "no-unused-vars")).to.equal("none");
+    expect(getRuleDiagnosticTag(tags, "my-plugin/no-old-api")).to.equal(
+      "deprecated"
+    );
+    expect(getRuleDiagnosticTag(tags, "my-plugin/no-dead-code")).to.equal(
+      "unnecessary"
+    );
+    expect(getRuleDiagnosticTag(tags, "no-unreachable")).to.equal(
+      "unnecessary"
+    );
+  });
+});
@@ -0,0 +1,306 @@
+import 'mocha';
+
+import { expect } from 'chai';
+import * as ts from 'typescript/lib/tsserverlibrary';
+
+import {
+  DisableRuleScope,
+  getDisableRuleTextChange,
+  getRemoveDirectiveTextChange,
+  parseUnusedDirectiveProblem
+} from '../directives';
+
+function applyTextChange(
+  text: string,
+  change: ts.TextChange | undefined
+): string | undefined {
+  if (!change) {
+    return undefined;
+  }
+  return (
+    text.slice(0, change.span.start) +
+    change.newText +
+    text.slice(change.span.start + change.span.length)
+  );
+}
+
+function disableRule(
+  text: string,
+  line: number,
+  scope: DisableRuleScope,
+  options: { fileName?: string, description?: string } = {}
+): string | undefined {
+  const file = ts.createSourceFile(
+    options.fileName || "test.ts",
+    text,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  return applyTextChange(
+    text,
+    getDisableRuleTextChange(
+      ts,
+      file,
+      "no-console",
+      line,
+      scope,
+      options.description
+    )
+  );
+}
+
+function removeDirective(
+  text: string,
+  unusedRules?: string[],
+  fileName = "test.ts"
+): string | undefined {
+  const file = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true);
+  const commentStart = /\/[/*] eslint/.exec(text)!.index;
+  return applyTextChange(
+    text,
+    getRemoveDirectiveTextChange(file, commentStart, unusedRules)
+  );
+}
+
+describe("getDisableRuleTextChange", () => {
+  describe("next-line", () => {
+    it("should insert an indented directive", () => {
+      expect(
+        disableRule("if (a) {\n  console.log(a);\n}\n", 1, "next-line")
+      ).to.equal(
+        "if (a) {\n  // eslint-disable-next-line no-console\n  console.log(a);\n}\n"
+      );
+    });
+
+    it("should add the rule to an existing directive", () => {
+      expect(
+        disableRule(
+          "// eslint-disable-next-line no-alert -- legacy code\nconsole.log(alert());\n",
+          1,
+          "next-line"
+        )
+      ).to.equal(
+        "// eslint-disable-next-line no-alert, no-console -- legacy code\nconsole.log(alert());\n"
+      );
+    });
+
+    it("should not change a directive that already disables the rule", () => {
+      expect(
+        disableRule(
+          "// eslint-disable-next-line no-console\nconsole.log(a);\n",
+          1,
+          "next-line"
+        )
+      ).to.equal(undefined);
+    });
+
+    it("should append the description", () => {
+      expect(
+        disableRule("console.log(a);\n", 0, "next-line", {
+          description: "needed for debugging"
+        })
+      ).to.equal(
+        "// eslint-disable-next-line no-console -- needed for debugging\nconsole.log(a);\n"
+      );
+    });
+
+    it("should use a JSX expression within JSX children", () => {
+      expect(
+        disableRule(
+          "const a = (\n  <div>\n    {console.log(a)}\n  </div>\n);\n",
+          2,
+          "next-line",
+          { fileName: "test.tsx" }
+        )
+      ).to.equal(
+        "const a = (\n  <div>\n    {/* eslint-disable-next-line no-console */}\n    {console.log(a)}\n  </div>\n);\n"
+      );
+    });
+
+    it("should add the rule to an existing JSX directive", () => {
+      expect(
+        disableRule(
+          "const a = (\n  <div>\n    {/* eslint-disable-next-line no-alert */}\n    {console.log(alert())}\n  </div>\n);\n",
+          3,
+          "next-line",
+          { fileName: "test.tsx" }
+        )
+      ).to.equal(
+        "const a = (\n  <div>\n    {/* eslint-disable-next-line no-alert, no-console */}\n    {console.log(alert())}\n  </div>\n);\n"
+      );
+    });
+
+    it("should use a line comment for JSX elements outside of children", () => {
+      expect(
+        disableRule(
+          "const a = (\n  <div onClick={console.log} />\n);\n",
+          1,
+          "next-line",
+          { fileName: "test.tsx" }
+        )
+      ).to.equal(
+        "const a = (\n  // eslint-disable-next-line no-console\n  <div onClick={console.log} />\n);\n"
+      );
+    });
+
+    it("should not insert a directive within a template literal", () => {
+      expect(
+        disableRule("const a = `\n${console.log(a)}`;\n", 1, "next-line")
+      ).to.equal(undefined);
+    });
+  });
+
+  describe("line", () => {
+    it("should append a directive", () => {
+      expect(disableRule("console.log(a);\n", 0, "line")).to.equal(
+        "console.log(a); // eslint-disable-line no-console\n"
+      );
+    });
+
+    it("should add the rule to an existing directive", () => {
+      expect(
+        disableRule(
+          "console.log(alert()); // eslint-disable-line no-alert\n",
+          0,
+          "line"
+        )
+      ).to.equal(
+        "console.log(alert()); // eslint-disable-line no-alert, no-console\n"
+      );
+    });
+
+    it("should insert a block comment before a trailing comment", () => {
+      expect(disableRule("console.log(a); // log a\n", 0, "line")).to.equal(
+        "console.log(a); /* eslint-disable-line no-console */ // log a\n"
+      );
+    });
+
+    it("should use a JSX expression within JSX children", () => {
+      expect(
+        disableRule(
+          "const a = (\n  <div>\n    {console.log(a)}\n  </div>\n);\n",
+          2,
+          "line",
+          { fileName: "test.tsx" }
+        )
+      ).to.equal(
+        "const a = (\n  <div>\n    {console.log(a)}{/* eslint-disable-line no-console */}\n  </div>\n);\n"
+      );
+    });
+
+    it("should append a directive on the last line", () => {
+      expect(disableRule("console.log(a);", 0, "line")).to.equal(
+        "console.log(a); // eslint-disable-line no-console"
+      );
+    });
+  });
+
+  describe("file", () => {
+    it("should insert a directive at the top of the file", () => {
+      expect(
+        disableRule("const a = 1;\nconsole.log(a);\n", 1, "file")
+      ).to.equal(
+        "/* eslint-disable no-console */\nconst a = 1;\nconsole.log(a);\n"
+      );
+    });
+
+    it("should insert the directive after a shebang", () => {
+      expect(
+        disableRule("#!/usr/bin/env node\nconsole.log(a);\n", 1, "file")
+      ).to.equal(
+        "#!/usr/bin/env node\n/* eslint-disable no-console */\nconsole.log(a);\n"
+      );
+    });
+
+    it("should add the rule to an existing directive", () => {
+      expect(
+        disableRule(
+          "/* eslint-disable no-alert -- generated */\nconsole.log(alert());\n",
+          1,
+          "file"
+        )
+      ).to.equal(
+        "/* eslint-disable no-alert, no-console -- generated */\nconsole.log(alert());\n"
+      );
+    });
+
+    it("should keep the line endings of the file", () => {
+      expect(disableRule("console.log(a);\r\n", 0, "file")).to.equal(
+        "/* eslint-disable no-console */\r\nconsole.log(a);\r\n"
+      );
+    });
+  });
+});
+
+describe("getRemoveDirectiveTextChange", () => {
+  it("should remove a directive on its own line", () => {
+    expect(
+      removeDirective(
+        "foo();\n  // eslint-disable-next-line no-console\nconsole.log(a);\n"
+      )
+    ).to.equal("foo();\nconsole.log(a);\n");
+  });
+
+  it("should remove a trailing directive", () => {
+    expect(
+      removeDirective("console.log(a); // eslint-disable-line no-console\n", [
+        "no-console"
+      ])
+    ).to.equal("console.log(a);\n");
+  });
+
+  it("should only remove unused rules", () => {
+    expect(
+      removeDirective(
+        "// eslint-disable-next-line no-alert, no-console, no-undef -- reason\nalert(a);\n",
+        ["no-console", "no-undef"]
+      )
+    ).to.equal("// eslint-disable-next-line no-alert -- reason\nalert(a);\n");
+  });
+
+  it("should remove JSX directives", () => {
+    expect(
+      removeDirective(
+        "const a = (\n  <div>\n    {/* eslint-disable-next-line no-console */}\n    {a}\n  </div>\n);\n",
+        ["no-console"],
+        "test.tsx"
+      )
+    ).to.equal("const a = (\n  <div>\n    {a}\n  </div>\n);\n");
+  });
+
+  it("should keep code after a block comment", () => {
+    expect(
+      removeDirective("/* eslint-disable-line no-console */ alert(a);\n")
+    ).to.equal("alert(a);\n");
+  });
+});
+
+describe("parseUnusedDirectiveProblem", () => {
+  it("should parse the unused rule", () => {
+    expect(
+      parseUnusedDirectiveProblem({
+        ruleId: null,
+        message:
+          "Unused eslint-disable directive (no problems were reported from 'no-console')."
+      })
+    ).to.deep.equal({ ruleId: "no-console" });
+  });
+
+  it("should parse directives without rules", () => {
+    expect(
+      parseUnusedDirectiveProblem({
+        ruleId: null,
+        message: "Unused eslint-disable directive (no problems were reported)."
+      })
+    ).to.deep.equal({ ruleId: undefined });
+  });
+
+  it("should ignore rule failures", () => {
+    expect(
+      parseUnusedDirectiveProblem({
+        ruleId: "no-console",
+        message: "Unexpected console statement."
+      })
+    ).to.equal(undefined);
+  });
+});
@@ -0,0 +1,208 @@
+import 'mocha';
+
+import { expect } from 'chai';
+import * as ts from 'typescript/lib/tsserverlibrary';
+
+import {
+  DiagnosableProject,
+  DoctorCommand,
+  doctorCommand,
+  DoctorResultEventBody,
+  doctorResultEvent,
+  formatDiagnosis
+} from '../doctor';
+import { EsLintDiagnosis } from '../runner';
+
+const diagnosis: EsLintDiagnosis = {
+  filePath: "/project/src/a.ts",
+  workspaceFolderPath: "/project",
+  packageRoot: "/project",
+  resolution: {
+    eslintPath: "/usr/lib/node_modules/eslint/lib/api.js",
+    resolvedFrom: "global",
+    globalPackageManager: "npm",
+    warnings: []
+  },
+  eslint: { version: "8.57.0", api: "ESLint", configType: "eslintrc" },
+  configFilePaths: ["/project/.eslintrc.json"],
+  hasConfiguration: true,
+  parser: "@typescript-eslint/parser",
+  plugins: ["@typescript-eslint"],
+  ignored: "the ignore file /project/.eslintignore",
+  warnings: ["Failed to load plugin 'import'"]
+};
+
+function createFakeSession() {
+  const handlers = new Map<
+    string,
+    (request: ts.server.protocol.Request) => ts.server.HandlerResponse
+  >();
+  let resolveResult: (body: DoctorResultEventBody) => void;
+  const result = new Promise<DoctorResultEventBody>((resolve) => {
+    resolveResult = resolve;
+  });
+  const errors: string[] = [];
+  return {
+    session: {
+      addProtocolHandler(
+        command: string,
+        handler: (
+          request: ts.server.protocol.Request
+        ) => ts.server.HandlerResponse
+      ) {
+        handlers.set(command, handler);
+      },
+      event(body: any, eventName: string) {
+        if (eventName === doctorResultEvent) {
+          resolveResult(body);
+        }
+      }
+    },
+    execute(command: string, args?: object): any {
+      return handlers.get(command)!({
+        seq: 1,
+        type: "request",
+        command,
+        arguments: args
+      }).response;
+    },
+    result,
+    errors,
+    logError(message: string) {
+      errors.push(message);
+    }
+  };
+}
+
+function createFakeProject(
+  diagnose: (fileName: string) => Promise<EsLintDiagnosis>
+): DiagnosableProject {
+  return {
+    projectFileName: "/project/tsconfig.json",
+    isClosed: () => false,
+    containsFile: (fileName) => fileName.startsWith("/project/"),
+    diagnose
+  };
+}
+
+describe("DoctorCommand", () => {
+  it("should report the diagnosis of a file with an event", async () => {
+    const fake = createFakeSession();
+    const command = new DoctorCommand(fake.session, fake.logError);
+    command.addProject(createFakeProject(() => Promise.resolve(diagnosis)));
+
+    const response = fake.execute(doctorCommand, { file: "/project/src/a.ts" });
+    expect(response).to.deep.equal({
+      checkId: 1,
+      projectFileName: "/project/tsconfig.json"
+    });
+
+    const result = await fake.result;
+    expect(result.checkId).to.equal(1);
+    expect(result.diagnosis).to.deep.equal(diagnosis);
+    expect(result.report).to.equal(formatDiagnosis(diagnosis));
+  });
+
+  it("should report a failed check", async () => {
+    const fake = createFakeSession();
+    const command = new DoctorCommand(fake.session, fake.logError);
+    command.addProject(
+      createFakeProject(() =>
+        Promise.reject(new Error("Failed to resolve eslint"))
+      )
+    );
+
+    fake.execute(doctorCommand, { file: "/project/src/a.ts" });
+
+    const result = await fake.result;
+    expect(result.diagnosis).to.equal(undefined);
+    expect(result.report).to.equal(
+      "Could not check /project/src/a.ts: Failed to resolve eslint"
+    );
+    expect(fake.errors).to.deep.equal([result.report]);
+  });
+
+  it("should report a check that failed to send its result", async () => {
+    const fake = createFakeSession();
+    const event = fake.session.event;
+    let sent = false;
+    fake.session.event = (body: any, eventName: string) => {
+      if (!sent) {
+        sent = true;
+        throw new Error("Session closed");
+      }
+      event(body, eventName);
+    };
+    const command = new DoctorCommand(fake.session, fake.logError);
+    command.addProject(createFakeProject(() => Promise.resolve(diagnosis)));
+
+    fake.execute(doctorCommand, { file: "/project/src/a.ts" });
+
+    const result = await fake.result;
+    expect(result.diagnosis).to.equal(undefined);
+    expect(result.report).to.equal(
+      "Could not check /project/src/a.ts: Session closed"
+    );
+    expect(fake.errors).to.deep.equal([result.report]);
+  });
+
+  it("should throw for files of unknown projects", () => {
+    const fake = createFakeSession();
+    const command = new DoctorCommand(fake.session, fake.logError);
+    command.addProject(createFakeProject(() => Promise.resolve(diagnosis)));
+
+    expect(() => fake.execute(doctorCommand, { file: "/other/a.ts" })).to.throw(
+      "No project found for '/other/a.ts'"
+    );
+    expect(() => fake.execute(doctorCommand, {})).to.throw(
+      "Specify the file to check with 'file'"
+    );
+  });
+
+  it("should not check the files of removed projects", () => {
+    const fake = createFakeSession();
+    const command = new DoctorCommand(fake.session, fake.logError);
+    const project = createFakeProject(() => Promise.resolve(diagnosis));
+    command.addProject(project);
+    command.removeProject(project);
+
+    expect(() =>
+      fake.execute(doctorCommand, { file: "/project/src/a.ts" })
+    ).to.throw("No project found for '/project/src/a.ts'");
+  });
+});
+
+describe("formatDiagnosis", () => {
+  it("should describe the resolution, configuration and warnings", () => {
+    expect(formatDiagnosis(diagnosis).split("\n")).to.deep.equal([
+      "ESLint doctor report for /project/src/a.ts",
+      "  Workspace folder: /project",
+      "  Package root: /project",
+      "  ESLint path: /usr/lib/node_modules/eslint/lib/api.js",
+      "  Resolved from: global (npm)",
+      "  ESLint version: 8.57.0 (ESLint API, eslintrc config)",
+      "  Config files: /project/.eslintrc.json",
+      "  Configuration for the file: found",
+      "  Parser: @typescript-eslint/parser",
+      "  Plugins: @typescript-eslint",
+      "  Ignored by eslint: yes, by the ignore file /project/.eslintignore",
+      "  Excluded by the plugin settings: no",
+      "  Warnings:",
+      "    Failed to load plugin 'import'"
+    ]);
+  });
+
+  it("should report when eslint could not be loaded", () => {
+    const report = formatDiagnosis({
+      ...diagnosis,
+      resolution: { eslintPath: "", resolvedFrom: "global", warnings: [] },
+      eslint: undefined,
+      configFilePaths: [],
+      warnings: []
+    });
+    expect(report).to.contain("ESLint path: not found");
+    expect(report).to.contain("ESLint version: not loaded");
+    expect(report).not.to.contain("Parser:");
+    expect(report).to.contain("Warnings: none");
+  });
+});
@@ -0,0 +1,127 @@
+import 'mocha';
+
+import { expect } from 'chai';
+import * as ts from 'typescript/lib/tsserverlibrary';
+
+import {
+  getLintStatisticsCommand,
+  LintStatistics,
+  LintStatisticsResponse
+} from '../lintStatistics';
+import { LogEntry } from '../runner/log';
+
+function createFakeSession() {
+  const handlers = new Map<
+    string,
+    (request: ts.server.protocol.Request) => ts.server.HandlerResponse
+  >();
+  return {
+    session: {
+      addProtocolHandler(
+        command: string,
+        handler: (
+          request: ts.server.protocol.Request
+        ) => ts.server.HandlerResponse
+      ) {
+        handlers.set(command, handler);
+      }
+    },
+    execute(command: string, args?: object): any {
+      return handlers.get(command)!({
+        seq: 1,
+        type: "request",
+        command,
+        arguments: args
+      }).response;
+    }
+  };
+}
+
+describe("LintStatistics", () => {
+  it("should summarize the timings of all lints", () => {
+    const statistics = new LintStatistics(() => undefined);
+    statistics.record("a.ts", {
+      resolveMs: 2,
+      configMs: 4,
+      lintMs: 10,
+      ruleTimes: { semi: 1, "no-undef": 6 }
+    });
+    statistics.record("b.ts", {
+      resolveMs: 0,
+      configMs: 2,
+      lintMs: 30,
+      ruleTimes: { semi: 3 }
+    });
+
+    const result = statistics.getStatistics();
+    expect(result.lint).to.deep.equal({
+      count: 2,
+      totalMs: 40,
+      meanMs: 20,
+      maxMs: 30,
+      recentMeanMs: 20
+    });
+    expect(result.config.meanMs).to.equal(3);
+    expect(
+      result.rules.map((x) => [x.ruleId, x.count, x.totalMs])
+    ).to.deep.equal([
+      ["no-undef", 1, 6],
+      ["semi", 2, 4]
+    ]);
+    expect(result.slowestFiles).to.deep.equal([
+      { fileName: "b.ts", lintMs: 30 },
+      { fileName: "a.ts", lintMs: 10 }
+    ]);
+  });
+
+  it("should only keep the last lint of a file among the slowest files", () => {
+    const statistics = new LintStatistics(() => undefined);
+    statistics.record("a.ts", { resolveMs: 0, configMs: 0, lintMs: 50 });
+    statistics.record("a.ts", { resolveMs: 0, configMs: 0, lintMs: 5 });
+
+    expect(statistics.getStatistics().slowestFiles).to.deep.equal([
+      { fileName: "a.ts", lintMs: 5 }
+    ]);
+  });
+
+  it("should log a summary only if files were linted since the last one", () => {
+    const entries: LogEntry[] = [];
+    const statistics = new LintStatistics((entry) => entries.push(entry));
+    statistics.logSummary();
+    expect(entries).to.have.length(0);
+
+    statistics.record("a.ts", {
+      resolveMs: 0,
+      configMs: 0,
+      lintMs: 8,
+      ruleTimes: { semi: 2 }
+    });
+    statistics.logSummary();
+    statistics.logSummary();
+
+    expect(entries).to.have.length(1);
+    expect(entries[0].level).to.equal("info");
+    expect(entries[0].fields!.lints).to.equal(1);
+    expect(entries[0].fields!.slowestRules).to.equal("semi (2ms)");
+    expect(entries[0].fields!.slowestFile).to.equal("a.ts");
+  });
+
+  it("should respond to the statistics command and reset on request", () => {
+    const { session, execute } = createFakeSession();
+    const statistics = new LintStatistics(() => undefined);
+    statistics.registerCommand(session);
+    statistics.record("a.ts", { resolveMs: 1, configMs: 1, lintMs: 1 });
+
+    const response: LintStatisticsResponse = execute(getLintStatisticsCommand, {
+      reset: true
+    });
+    expect(response.lint.count).to.equal(1);
+
+    const afterReset: LintStatisticsResponse = execute(
+      getLintStatisticsCommand
+    );
+    expect(afterReset.lint.count).to.equal(0);
+    expect(afterReset.rules).to.deep.equal([]);
+    expect(afterReset.slowestFiles).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,109 @@
+import 'mocha';
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript/lib/tsserverlibrary';
+
+import { Logger } from '../logger';
+import { isLogLevelEnabled } from '../runner/log';
+
+function createLogger(messages: string[]): Logger {
+  const serverLogger = {
+    loggingEnabled: () => true,
+    msg: (message: string) => messages.push(message)
+  };
+  return Logger.forPlugin(ts, ({
+    project: { projectService: { logger: serverLogger } }
+  } as unknown) as ts.server.PluginCreateInfo);
+}
+
+describe("isLogLevelEnabled", () => {
+  it("should enable the levels up to the trace level", () => {
+    expect(isLogLevelEnabled("warn", "error")).to.equal(true);
+    expect(isLogLevelEnabled("warn", "warn")).to.equal(true);
+    expect(isLogLevelEnabled("warn", "info")).to.equal(false);
+  });
+
+  it("should default to info", () => {
+    expect(isLogLevelEnabled(undefined, "info")).to.equal(true);
+    expect(isLogLevelEnabled(undefined, "verbose")).to.equal(false);
+    expect(isLogLevelEnabled("normal", "verbose")).to.equal(false);
+    expect(isLogLevelEnabled("Verbose", "verbose")).to.equal(true);
+  });
+});
+
+describe("Logger", () => {
+  it("should only log entries of the configured levels", () => {
+    const messages: string[] = [];
+    const logger = createLogger(messages);
+    logger.configure({ traceLevel: "warn" });
+
+    logger.info("info");
+    logger.warn("warn");
+    logger.error("error");
+
+    expect(messages).to.deep.equal([
+      "[typescript-eslint-plugin] [warn] warn",
+      "[typescript-eslint-plugin] [error] error"
+    ]);
+  });
+
+  it("should write the structured fields", () => {
+    const messages: string[] = [];
+    const logger = createLogger(messages);
+
+    logger.info("Linted", { file: "/a.ts", durationMs: 12 });
+
+    expect(messages).to.deep.equal([
+      '[typescript-eslint-plugin] [info] Linted {"file":"/a.ts","durationMs":12}'
+    ]);
+  });
+
+  it("should append the entries to the log file", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "eslint-plugin-"));
+    const logFile = path.join(directory, "plugin.log");
+    const logger = createLogger([]);
+    logger.configure({ traceLevel: "verbose", logFile });
+
+    logger.verbose("Linted", { file: "/a.ts" });
+    logger.error("Failed");
+    await logger.flush();
+
+    const entries = fs
+      .readFileSync(logFile)
+      .toString()
+      .trim()
+      .split("\n")
+      .map((x) => JSON.parse(x));
+    fs.unlinkSync(logFile);
+    fs.rmdirSync(directory);
+
+    expect(entries).to.have.length(2);
+    expect(entries[0]).to.deep.include({
+      level: "verbose",
+      message: "Linted",
+      file: "/a.ts"
+    });
+    expect(entries[1]).to.deep.include({ level: "error", message: "Failed" });
+    expect(entries[0].time).to.be.a("string");
+  });
+
+  it("should report a log file that can not be written once", async () => {
+    const messages: string[] = [];
+    const logger = createLogger(messages);
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "eslint-plugin-"));
+    const logFile = path.join(directory, "missing", "plugin.log");
+    logger.configure({ traceLevel: "warn", logFile });
+
+    logger.warn("First");
+    logger.warn("Second");
+    await logger.flush();
+    logger.warn("Third");
+    await logger.flush();
+    fs.rmdirSync(directory);
+
+    expect(messages.filter((x) => x.includes("log file"))).to.have.length(1);
+  });
+});
@@ -0,0 +1,551 @@
+import 'mocha';
+
+import { expect } from 'chai';
+import * as path from 'path';
+import * as ts from 'typescript/lib/tsserverlibrary';
+
+import { ESLINT_ERROR_SOURCE, pluginId } from '../config';
+import { LintStatistics } from '../lintStatistics';
+import { Logger } from '../logger';
+import { ESLintPlugin } from '../plugin';
+import { RunConfiguration } from '../runner';
+import { EsLintRunnerPool } from '../runner/pool';
+import { ConfigurationManager } from '../settings';
+
+const fixtureDir = path.join(__dirname, "..", "..", "test-data", "plugin");
+const testFile = path.join(fixtureDir, "test.ts");
+
+// tsserver and the plugin must not keep watching files after the tests
+const noWatcher: ts.FileWatcher = { close: () => undefined };
+const testTs: typeof ts = {
+  ...ts,
+  sys: {
+    ...ts.sys,
+    watchFile: () => noWatcher,
+    watchDirectory: () => noWatcher
+  }
+};
+
+function createServerLogger(messages: string[]): ts.server.Logger {
+  return {
+    close: () => undefined,
+    hasLevel: () => true,
+    loggingEnabled: () => true,
+    perftrc: () => undefined,
+    info: () => undefined,
+    startGroup: () => undefined,
+    endGroup: () => undefined,
+    msg: (message: string) => {
+      messages.push(message);
+    },
+    getLogFileName: () => undefined
+  };
+}
+
+function createProjectService(): ts.server.ProjectService {
+  const host: ts.server.ServerHost = {
+    ...testTs.sys,
+    watchFile: () => noWatcher,
+    watchDirectory: () => noWatcher,
+    // plugins of the tsconfig are loaded by the tests themselves
+    require: undefined,
+    setTimeout,
+    clearTimeout,
+    setImmediate,
+    clearImmediate
+  };
+  return new ts.server.ProjectService({
+    host,
+    logger: createServerLogger([]),
+    cancellationToken: ts.server.nullCancellationToken,
+    useSingleInferredProject: false,
+    useInferredProjectPerProjectRoot: false,
+    typingsInstaller: ts.server.nullTypingsInstaller
+  });
+}
+
+interface PluginFixture {
+  readonly project: ts.server.Project;
+  readonly plugin: ESLintPlugin;
+  readonly languageService: ts.LanguageService;
+  readonly configManager: ConfigurationManager;
+  readonly logMessages: string[];
+  /**
+   * Replace the contents of the test file with an edit of the editor
+   */
+  editFile(fileContent: string): void;
+  /**
+   * Get the diagnostics of a file once its lint has completed
+   */
+  getLintedDiagnostics(fileName: string): Promise<ts.Diagnostic[]>;
+}
+
+/**
+ * Open a file of the plugin fixture in a project whose language service is
+ * decorated by the plugin, like tsserver does for the plugins of a tsconfig
+ */
+function createPluginFixture(
+  settings: object,
+  fileContent: string
+): PluginFixture {
+  const projectService = createProjectService();
+  projectService.openClientFile(testFile, fileContent);
+  const project = projectService.getDefaultProjectForFile(
+    ts.server.toNormalizedPath(testFile),
+    true
+  )!;
+
+  let onRefresh: () => void = () => undefined;
+  project.refreshDiagnostics = () => onRefresh();
+
+  const logMessages: string[] = [];
+  const logger = Logger.forPlugin(testTs, ({
+    project: { projectService: { logger: createServerLogger(logMessages) } }
+  } as unknown) as ts.server.PluginCreateInfo);
+  const configManager = new ConfigurationManager(testTs);
+  configManager.setProject(project, logger);
+  configManager.updateFromPluginConfig({ name: pluginId, ...settings });
+
+  const plugin = new ESLintPlugin(
+    testTs,
+    project,
+    logger,
+    project,
+    configManager,
+    new LintStatistics(() => undefined)
+  );
+  const languageService = plugin.decorate(project.getLanguageService())!;
+  // tsserver replaces the language service of the project with the decorated one
+  Object.assign(project, { languageService });
+
+  return {
+    project,
+    plugin,
+    languageService,
+    configManager,
+    logMessages,
+    editFile(fileContent) {
+      const scriptInfo = projectService.getScriptInfo(testFile)!;
+      scriptInfo.editContent(
+        0,
+        scriptInfo.getSnapshot().getLength(),
+        fileContent
+      );
+      project.updateGraph();
+    },
+    async getLintedDiagnostics(fileName) {
+      const refreshed = new Promise<void>((resolve) => {
+        onRefresh = resolve;
+      });
+      languageService.getSemanticDiagnostics(fileName);
+      await refreshed;
+      return languageService.getSemanticDiagnostics(fileName);
+    }
+  };
+}
+
+function applyTextChanges(
+  text: string,
+  changes: ReadonlyArray<ts.FileTextChanges>
+): string {
+  const textChanges = ([] as ts.TextChange[]).concat(
+    ...changes.map((x) => x.textChanges)
+  );
+  return textChanges
+    .sort((a, b) => b.span.start - a.span.start)
+    .reduce(
+      (result, { span, newText }) =>
+        result.slice(0, span.start) +
+        newText +
+        result.slice(span.start + span.length),
+      text
+    );
+}
+
+function getMessages(diagnostics: ts.Diagnostic[]): string[] {
+  return diagnostics.map((x) =>
+    ts.flattenDiagnosticMessageText(x.messageText, "\n")
+  );
+}
+
+describe("ESLintPlugin", () => {
+  describe("settings", () => {
+    it("should report invalid settings on the plugin entry of the project config file", async () => {
+      const fixture = createPluginFixture(
+        { packageManager: "bower" },
+        "export const a = 1;\n"
+      );
+
+      const diagnostics = await fixture.getLintedDiagnostics(testFile);
+      expect(getMessages(diagnostics)).to.deep.equal([]);
+
+      const configDiagnostics = fixture.languageService
+        .getCompilerOptionsDiagnostics()
+        .filter((x) => x.source === ESLINT_ERROR_SOURCE);
+      expect(getMessages(configDiagnostics)).to.deep.equal([
+        `${pluginId}: ${fixture.configManager.problems[0].message}`
+      ]);
+      const configFile = configDiagnostics[0].file!;
+      expect(configFile.fileName).to.equal(
+        path.join(fixtureDir, "tsconfig.json").replace(/\\/g, "/")
+      );
+      expect(configDiagnostics[0].start).to.equal(
+        configFile.text.indexOf("{", configFile.text.indexOf('"plugins"'))
+      );
+      expect(
+        fixture.logMessages.some((x) => x.includes("Invalid plugin settings"))
+      ).to.equal(true);
+    });
+
+    it("should log invalid settings of the editor", async () => {
+      const fixture = createPluginFixture({}, "export const a = 1;\n");
+      fixture.configManager.updateFromEditorConfig({ jsEnable: "yes" });
+
+      const diagnostics = await fixture.getLintedDiagnostics(testFile);
+      expect(getMessages(diagnostics)).to.deep.equal([]);
+      expect(
+        fixture.logMessages.some((x) => x.includes("Invalid plugin settings"))
+      ).to.equal(true);
+    });
+
+    it("should not report valid settings", async () => {
+      const fixture = createPluginFixture(
+        { packageManager: "npm" },
+        "export const a = 1;\n"
+      );
+
+      const diagnostics = await fixture.getLintedDiagnostics(testFile);
+      expect(getMessages(diagnostics)).to.deep.equal([]);
+    });
+  });
+
+  describe("code fixes", () => {
+    it("should offer a code fix for each suggestion of a problem", async () => {
+      const content =
+        '/* eslint suggest-const: "error" */\nexport let a = 1;\n';
+      const fixture = createPluginFixture({ rulePaths: ["rules"] }, content);
+
+      const [diagnostic] = await fixture.getLintedDiagnostics(testFile);
+      expect(getMessages([diagnostic])).to.deep.equal([
+        "Unexpected let. (suggest-const)"
+      ]);
+      const fixes = fixture.languageService
+        .getCodeFixesAtPosition(
+          testFile,
+          diagnostic.start!,
+          diagnostic.start! + diagnostic.length!,
+          [diagnostic.code],
+          {},
+          {}
+        )
+        .filter((x) => x.fixName === "eslint:suggestion:suggest-const");
+
+      const letStart = content.indexOf("let");
+      expect(fixes).to.deep.equal([
+        {
+          description: "Use const",
+          fixName: "eslint:suggestion:suggest-const",
+          changes: [
+            {
+              fileName: testFile,
+              textChanges: [
+                { span: { start: letStart, length: 3 }, newText: "const" }
+              ]
+            }
+          ]
+        },
+        {
+          description: "Use var",
+          fixName: "eslint:suggestion:suggest-const",
+          changes: [
+            {
+              fileName: testFile,
+              textChanges: [
+                { span: { start: letStart, length: 3 }, newText: "var" }
+              ]
+            }
+          ]
+        }
+      ]);
+      expect(fixes.map((x) => x.fixId)).to.deep.equal([undefined, undefined]);
+    });
+
+    it("should fix all problems of a rule on request", async () => {
+      const content = "export const a = 1\nexport const b = 2\n";
+      const fixture = createPluginFixture({}, content);
+      const [diagnostic] = await fixture.getLintedDiagnostics(testFile);
+
+      const fix = fixture.languageService
+        .getCodeFixesAtPosition(
+          testFile,
+          diagnostic.start!,
+          diagnostic.start! + diagnostic.length!,
+          [diagnostic.code],
+          {},
+          {}
+        )
+        .find((x) => x.fixId !== undefined)!;
+      expect(fix.fixAllDescription).to.equal("Fix all 'semi'");
+      const combined = fixture.languageService.getCombinedCodeFix(
+        { type: "file", fileName: testFile },
+        fix.fixId!,
+        {},
+        {}
+      );
+      expect(applyTextChanges(content, combined.changes)).to.equal(
+        "export const a = 1;\nexport const b = 2;\n"
+      );
+    });
+
+    it("should fix all auto-fixable problems like eslint --fix on request", async () => {
+      const content = "export const a = 1\nexport const b = 2\n";
+      const fixture = createPluginFixture({}, content);
+      const [diagnostic] = await fixture.getLintedDiagnostics(testFile);
+
+      const fix = fixture.languageService
+        .getCodeFixesAtPosition(
+          testFile,
+          diagnostic.start!,
+          diagnostic.start! + diagnostic.length!,
+          [diagnostic.code],
+          {},
+          {}
+        )
+        .find((x) => x.fixName === "eslint:fix-all")!;
+      // the quick fix applies a single pass of the fixes
+      expect(applyTextChanges(content, fix.changes)).to.equal(
+        "export const a = 1;\nexport const b = 2;\n"
+      );
+      expect(fix.fixAllDescription).to.equal(
+        "Fix all auto-fixable eslint failures like eslint --fix"
+      );
+      const combined = fixture.languageService.getCombinedCodeFix(
+        { type: "file", fileName: testFile },
+        fix.fixId!,
+        {},
+        {}
+      );
+      expect(applyTextChanges(content, combined.changes)).to.equal(
+        "export const a = 1;\nexport const b = 2;\n"
+      );
+      expect(
+        fixture.logMessages.filter((x) => x.includes("[warn]"))
+      ).to.deep.equal([]);
+    });
+  });
+
+  describe("quick info", () => {
+    it("should show the description and the documentation of rules", async () => {
+      const content = "export const a = 1\n";
+      const fixture = createPluginFixture({}, content);
+      const [diagnostic] = await fixture.getLintedDiagnostics(testFile);
+
+      const quickInfo = fixture.languageService.getQuickInfoAtPosition(
+        testFile,
+        diagnostic.start!
+      )!;
+      expect(ts.displayPartsToString(quickInfo.documentation)).to.equal(
+        [
+          "**semi** (eslint): require or disallow semicolons instead of ASI",
+          "Category: Stylistic Issues | Fixable: code",
+          "[Documentation](https://eslint.org/docs/rules/semi)"
+        ].join("\n\n")
+      );
+
+      const withoutProblem = fixture.languageService.getQuickInfoAtPosition(
+        testFile,
+        content.indexOf("a =")
+      )!;
+      expect(ts.displayPartsToString(withoutProblem.displayParts)).to.equal(
+        "const a: 1"
+      );
+      expect(withoutProblem.documentation).to.deep.equal([]);
+    });
+  });
+
+  describe("diagnostic tags", () => {
+    const content = "const unused = 1;\nexport const a = 1\n";
+
+    function findDiagnostic(
+      diagnostics: ts.Diagnostic[],
+      ruleId: string
+    ): ts.Diagnostic & { reportsDeprecated?: {} } {
+      const index = getMessages(diagnostics).findIndex((x) =>
+        x.endsWith(`(${ruleId})`)
+      );
+      expect(index).not.to.equal(-1);
+      return diagnostics[index];
+    }
+
+    it("should tag unused variables as unnecessary", async () => {
+      const fixture = createPluginFixture({}, content);
+      const diagnostics = await fixture.getLintedDiagnostics(testFile);
+
+      const unused = findDiagnostic(
+        diagnostics,
+        "@typescript-eslint/no-unused-vars"
+      );
+      expect(unused.reportsUnnecessary).to.deep.equal({});
+      expect(unused.reportsDeprecated).to.equal(undefined);
+      const semi = findDiagnostic(diagnostics, "semi");
+      expect(semi.reportsUnnecessary).to.equal(undefined);
+      expect(semi.reportsDeprecated).to.equal(undefined);
+    });
+
+    it("should tag the problems of rules as configured", async () => {
+      const fixture = createPluginFixture(
+        { ruleDiagnosticTags: { semi: "deprecated" } },
+        content
+      );
+      const diagnostics = await fixture.getLintedDiagnostics(testFile);
+
+      const semi = findDiagnostic(diagnostics, "semi");
+      expect(semi.reportsDeprecated).to.deep.equal({});
+      expect(semi.reportsUnnecessary).to.equal(undefined);
+    });
+  });
+
+  describe("refactors", () => {
+    it("should offer the fix all refactors with their code action kinds", async () => {
+      const content = "export const a = 1\nexport const b = 2\n";
+      const fixture = createPluginFixture({}, content);
+      await fixture.getLintedDiagnostics(testFile);
+
+      const refactors = fixture.languageService.getApplicableRefactors(
+        testFile,
+        { pos: 0, end: content.indexOf("\n") },
+        {}
+      );
+      const fixAll = refactors.find((x) => x.name === "eslint:fix-all")!;
+      expect(fixAll.actions).to.deep.equal([
+        {
+          name: "selection",
+          description: "Fix all ESLint problems in selection",
+          kind: "refactor.rewrite.eslint.fixAll"
+        },
+        {
+          name: "selection:layout",
+          description: "Fix all ESLint problems of type 'layout' in selection",
+          kind: "refactor.rewrite.eslint.fixAll.layout"
+        },
+        {
+          name: "file",
+          description: "Fix all ESLint problems in file",
+          kind: "source.fixAll.eslint"
+        },
+        {
+          name: "file:layout",
+          description: "Fix all ESLint problems of type 'layout' in file",
+          kind: "source.fixAll.eslint.layout"
+        }
+      ]);
+    });
+
+    it("should fix all problems of the file or of the selection", async () => {
+      const content = "export const a = 1\nexport const b = 2\n";
+      const fixture = createPluginFixture({}, content);
+      await fixture.getLintedDiagnostics(testFile);
+
+      const fixAll = (
+        positionOrRange: number | ts.TextRange,
+        actionName: string
+      ) =>
+        applyTextChanges(
+          content,
+          fixture.languageService.getEditsForRefactor(
+            testFile,
+            {},
+            positionOrRange,
+            "eslint:fix-all",
+            actionName,
+            {}
+          )!.edits
+        );
+
+      expect(fixAll(0, "file")).to.equal(
+        "export const a = 1;\nexport const b = 2;\n"
+      );
+      expect(fixAll(0, "file:problem")).to.equal(content);
+      expect(fixAll({ pos: 0, end: 5 }, "selection:layout")).to.equal(
+        "export const a = 1;\nexport const b = 2\n"
+      );
+      // eslint fixed the file instead of falling back to a single pass
+      expect(
+        fixture.logMessages.filter((x) => x.includes("[warn]"))
+      ).to.deep.equal([]);
+    });
+  });
+
+  describe("lint results", () => {
+    const runEsLint = EsLintRunnerPool.prototype.runEsLint;
+    let lintedTexts: string[];
+    let configurations: RunConfiguration[];
+
+    beforeEach(() => {
+      lintedTexts = [];
+      configurations = [];
+      EsLintRunnerPool.prototype.runEsLint = function (
+        this: EsLintRunnerPool,
+        ...args: Parameters<EsLintRunnerPool["runEsLint"]>
+      ) {
+        lintedTexts.push(args[1]);
+        configurations.push(args[2]);
+        return runEsLint.apply(this, args);
+      };
+    });
+
+    afterEach(() => {
+      EsLintRunnerPool.prototype.runEsLint = runEsLint;
+    });
+
+    it("should only lint again when the version or the configuration changes", async () => {
+      const fixture = createPluginFixture({}, "export const a = 1;\n");
+
+      await fixture.getLintedDiagnostics(testFile);
+      fixture.languageService.getSemanticDiagnostics(testFile);
+      expect(lintedTexts).to.deep.equal(["export const a = 1;\n"]);
+
+      fixture.editFile("export const a = 1\n");
+      const diagnostics = await fixture.getLintedDiagnostics(testFile);
+      expect(getMessages(diagnostics)).to.deep.equal([
+        "Missing semicolon. (semi)"
+      ]);
+      fixture.languageService.getSemanticDiagnostics(testFile);
+      expect(lintedTexts).to.deep.equal([
+        "export const a = 1;\n",
+        "export const a = 1\n"
+      ]);
+
+      fixture.configManager.updateFromEditorConfig({
+        ruleSeverityOverrides: { semi: "off" }
+      });
+      const reconfigured = await fixture.getLintedDiagnostics(testFile);
+      expect(getMessages(reconfigured)).to.deep.equal([]);
+      fixture.languageService.getSemanticDiagnostics(testFile);
+      expect(lintedTexts).to.have.length(3);
+    });
+
+    it("should not fix all problems while linting", async () => {
+      const fixture = createPluginFixture({}, "export const a = 1\n");
+
+      await fixture.getLintedDiagnostics(testFile);
+      expect(configurations.map((x) => x.fixAll)).to.deep.equal([undefined]);
+    });
+  });
+
+  describe("project", () => {
+    it("should notify the dispose listeners when the project is closed", async () => {
+      const fixture = createPluginFixture({}, "export const a = 1;\n");
+      await fixture.getLintedDiagnostics(testFile);
+      let disposed = 0;
+      fixture.plugin.onDispose(() => ++disposed);
+
+      fixture.project.close();
+
+      expect(disposed).to.equal(1);
+      expect(
+        fixture.logMessages.some((x) => x.includes("Project closed"))
+      ).to.equal(true);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import 'mocha';
+
+import { expect } from 'chai';
+import * as eslint from 'eslint';
+import * as ts from 'typescript/lib/tsserverlibrary';
+
+import {
+  cancelLintProjectCommand,
+  LintProjectProgressEventBody,
+  LintProjectResponse,
+  LintProjectResultEventBody,
+  lintProjectCommand,
+  lintProjectProgressEvent,
+  lintProjectResultEvent,
+  ProjectLinter,
+  ProjectLintCommands,
+  summarizeProblems
+} from '../projectLint';
+
+function createFakeSession() {
+  const handlers = new Map<
+    string,
+    (request: ts.server.protocol.Request) => ts.server.HandlerResponse
+  >();
+  const events: Array<{ eventName: string, body: any }> = [];
+  let resolveResult: (body: LintProjectResultEventBody) => void;
+  const result = new Promise<LintProjectResultEventBody>((resolve) => {
+    resolveResult = resolve;
+  });
+  return {
+    session: {
+      addProtocolHandler(
+        command: string,
+        handler: (
+          request: ts.server.protocol.Request
+        ) => ts.server.HandlerResponse
+      ) {
+        handlers.set(command, handler);
+      },
+      event(body: any, eventName: string) {
+        events.push({ eventName, body });
+        if (eventName === lintProjectResultEvent) {
+          resolveResult(body);
+        }
+      }
+    },
+    execute(command: string, args?: object): any {
+      return handlers.get(command)!({
+        seq: 1,
+        type: "request",
+        command,
+        arguments: args
+      }).response;
+    },
+    events,
+    result
+  };
+}
+
+function createFakeLinter(problems: {
+  [fileName: string]: Array<Partial<eslint.Linter.LintMessage>>;
+}): ProjectLinter & { linted: string[] } {
+  const linted: string[] = [];
+  return {
+    projectFileName: "/project/tsconfig.json",
+    linted,
+    isClosed: () => false,
+    containsFile: (fileName) => fileName in problems,
+    getProjectFiles: () => Object.keys(problems),
+    lintFile(fileName) {
+      linted.push(fileName);
+      if (fileName.endsWith("broken.ts")) {
+        return Promise.reject(new Error("Failed to load config"));
+      }
+      return Promise.resolve(
+        problems[fileName].map((x) => ({
+          ruleId: null,
+          severity: 1,
+          message: "",
+          line: 1,
+          column: 1,
+          ...x
+        })) as eslint.Linter.LintMessage[]
+      );
+    }
+  };
+}
+
+describe("ProjectLintCommands", () => {
+  it("should lint all project files and report progress", async () => {
+    const fake = createFakeSession();
+    const commands = new ProjectLintCommands(fake.session);
+    commands.addLinter(
+      createFakeLinter({
+        "/project/a.ts": [{ ruleId: "no-console", severity: 2 }],
+        "/project/b.ts": [],
+        "/project/broken.ts": []
+      })
+    );
+
+    const response: LintProjectResponse = fake.execute(lintProjectCommand);
+    const result = await fake.result;
+
+    expect(response.projectFileName).to.equal("/project/tsconfig.json");
+    expect(result.lintId).to.equal(response.lintId);
+    expect(result.cancelled).to.equal(false);
+    expect(result.files.map((x) => x.fileName)).to.deep.equal([
+      "/project/a.ts"
+    ]);
+    expect(result.summary).to.deep.equal([
+      { ruleId: "no-console", errorCount: 1, warningCount: 0 }
+    ]);
+    expect(result.errors).to.deep.equal([
+      { fileName: "/project/broken.ts", message: "Failed to load config" }
+    ]);
+
+    const progress: LintProjectProgressEventBody[] = fake.events
+      .filter((x) => x.eventName === lintProjectProgressEvent)
+      .map((x) => x.body);
+    expect(progress.map((x) => [x.completed, x.total])).to.deep.equal([
+      [1, 3],
+      [2, 3],
+      [3, 3]
+    ]);
+  });
+
+  it("should stop linting when cancelled", async () => {
+    const fake = createFakeSession();
+    const commands = new ProjectLintCommands(fake.session);
+    const linter = createFakeLinter({
+      "/project/a.ts": [],
+      "/project/b.ts": []
+    });
+    commands.addLinter(linter);
+
+    const { lintId }: LintProjectResponse = fake.execute(lintProjectCommand, {
+      file: "/project/a.ts"
+    });
+    expect(fake.execute(cancelLintProjectCommand, { lintId })).to.deep.equal({
+      cancelled: true
+    });
+    const result = await fake.result;
+
+    expect(result.cancelled).to.equal(true);
+    expect(linter.linted).to.deep.equal([]);
+    expect(fake.execute(cancelLintProjectCommand, { lintId })).to.deep.equal({
+      cancelled: false
+    });
+  });
+
+  it("should report a lint that failed", async () => {
+    const fake = createFakeSession();
+    const event = fake.session.event;
+    fake.session.event = (body: any, eventName: string) => {
+      if (eventName === lintProjectProgressEvent) {
+        throw new Error("Session closed");
+      }
+      event(body, eventName);
+    };
+    const commands = new ProjectLintCommands(fake.session);
+    commands.addLinter(createFakeLinter({ "/project/a.ts": [] }));
+
+    fake.execute(lintProjectCommand);
+    const result = await fake.result;
+
+    expect(result.failure).to.equal("Session closed");
+    expect(result.files).to.deep.equal([]);
+  });
+
+  it("should reject requests for unknown projects", () => {
+    const fake = createFakeSession();
+    const commands = new ProjectLintCommands(fake.session);
+    commands.addLinter(createFakeLinter({ "/project/a.ts": [] }));
+
+    expect(() =>
+      fake.execute(lintProjectCommand, {
+        projectFileName: "/other/tsconfig.json"
+      })
+    ).to.throw("No project found for '/other/tsconfig.json'");
+  });
+
+  it("should not lint removed projects", () => {
+    const fake = createFakeSession();
+    const commands = new ProjectLintCommands(fake.session);
+    const linter = createFakeLinter({ "/project/a.ts": [] });
+    commands.addLinter(linter);
+    commands.removeLinter(linter);
+
+    expect(() =>
+      fake.execute(lintProjectCommand, { file: "/project/a.ts" })
+    ).to.throw("No project found for '/project/a.ts'");
+  });
+});
+
+describe("summarizeProblems", () => {
+  it("should sort rules by their number of problems", () => {
+    const problem = { message: "", line: 1, column: 1 };
+    expect(
+      summarizeProblems([
+        {
+          fileName: "a.ts",
+          problems: [
+            { ...problem, ruleId: "eqeqeq", severity: "error" },
+            { ...problem, ruleId: "no-console", severity: "warning" }
+          ]
+        },
+        {
+          fileName: "b.ts",
+          problems: [{ ...problem, ruleId: "no-console", severity: "error" }]
+        }
+      ])
+    ).to.deep.equal([
+      { ruleId: "no-console", errorCount: 1, warningCount: 1 },
+      { ruleId: "eqeqeq", errorCount: 1, warningCount: 0 }
+    ]);
+  });
+});
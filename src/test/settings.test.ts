@@ -0,0 +1,250 @@
+import 'mocha';
+
+import { expect } from 'chai';
+import * as path from 'path';
+import * as ts from 'typescript/lib/tsserverlibrary';
+
+import {
+  ConfigurationManager,
+  getConfigurationDiagnostics,
+  getRuleSeverityOverride,
+  validateConfiguration
+} from '../settings';
+
+const testDataRoot = path.join(__dirname, "..", "..", "test-data");
+
+describe("validateConfiguration", () => {
+  it("should accept valid settings", () => {
+    const settings = {
+      name: "typescript-eslint-plugin",
+      jsEnable: true,
+      exclude: ["**/*.spec.ts"],
+      packageManager: "Yarn",
+      maxLintDurationMs: 500
+    };
+    const { configuration, problems } = validateConfiguration(settings);
+
+    expect(problems).to.deep.equal([]);
+    expect(configuration).to.deep.equal({
+      jsEnable: true,
+      exclude: ["**/*.spec.ts"],
+      packageManager: "Yarn",
+      maxLintDurationMs: 500
+    });
+  });
+
+  it("should report unknown settings with a suggestion", () => {
+    const { configuration, problems } = validateConfiguration({
+      ignoreDefintionFiles: false
+    });
+
+    expect(configuration).to.deep.equal({});
+    expect(problems).to.deep.equal([
+      {
+        setting: "ignoreDefintionFiles",
+        message:
+          "Unknown setting 'ignoreDefintionFiles'. Did you mean 'ignoreDefinitionFiles'?"
+      }
+    ]);
+  });
+
+  it("should report settings of the wrong type", () => {
+    const { configuration, problems } = validateConfiguration({
+      exclude: 5,
+      rulePaths: ["rules", 1],
+      jsEnable: "true",
+      maxLintDurationMs: "500"
+    });
+
+    expect(configuration).to.deep.equal({});
+    expect(problems.map((x) => x.setting)).to.deep.equal([
+      "exclude",
+      "rulePaths",
+      "jsEnable",
+      "maxLintDurationMs"
+    ]);
+    expect(problems[0].message).to.equal(
+      "Setting 'exclude' must be of type string or string[], but is of type number."
+    );
+  });
+
+  it("should report values that are not allowed", () => {
+    const { problems } = validateConfiguration({ packageManager: "bower" });
+
+    expect(problems).to.deep.equal([
+      {
+        setting: "packageManager",
+        message:
+          "Setting 'packageManager' must be one of 'npm', 'pnpm', 'yarn', but is 'bower'."
+      }
+    ]);
+  });
+
+  it("should report invalid rule severities", () => {
+    const { configuration, problems } = validateConfiguration({
+      ruleSeverityOverrides: { "no-console": "hint" }
+    });
+
+    expect(configuration).to.deep.equal({});
+    expect(problems).to.deep.equal([
+      {
+        setting: "ruleSeverityOverrides",
+        message:
+          "Setting 'ruleSeverityOverrides.no-console' must be one of 'error', 'warning', 'suggestion', 'message', 'off', but is 'hint'."
+      }
+    ]);
+  });
+
+  it("should report settings that are not an object", () => {
+    const { problems } = validateConfiguration("jsEnable");
+    expect(problems.length).to.equal(1);
+    expect(problems[0].setting).to.equal(undefined);
+  });
+
+  it("should validate the settings of overrides", () => {
+    const { configuration, problems } = validateConfiguration({
+      overrides: [
+        { files: "test/**", alwaysShowRuleFailuresAsWarnings: true },
+        { files: ["src/**"], jsEnable: "true", overrides: [] },
+        { jsEnable: true }
+      ]
+    });
+
+    expect(configuration).to.deep.equal({
+      overrides: [
+        { files: "test/**", alwaysShowRuleFailuresAsWarnings: true },
+        { files: ["src/**"] }
+      ]
+    });
+    expect(problems).to.deep.equal([
+      {
+        setting: "overrides",
+        message:
+          "Setting 'overrides[1].jsEnable' must be of type boolean, but is of type string."
+      },
+      {
+        setting: "overrides",
+        message: "Unknown setting 'overrides[1].overrides'."
+      },
+      {
+        setting: "overrides",
+        message:
+          "Setting 'overrides[2].files' must be of type string or string[], but is missing."
+      }
+    ]);
+  });
+
+  it("should reject project settings in overrides", () => {
+    const { configuration, problems } = validateConfiguration({
+      overrides: [{ files: "test/**", shareProgram: false, logFile: "a.log" }]
+    });
+
+    expect(configuration).to.deep.equal({ overrides: [{ files: "test/**" }] });
+    expect(problems).to.deep.equal([
+      {
+        setting: "overrides",
+        message:
+          "Setting 'overrides[0].shareProgram' applies to the whole project and can not be overridden."
+      },
+      {
+        setting: "overrides",
+        message:
+          "Setting 'overrides[0].logFile' applies to the whole project and can not be overridden."
+      }
+    ]);
+  });
+});
+
+describe("ConfigurationManager", () => {
+  it("should prefer settings of the editor over the ones of tsconfig.json", () => {
+    const manager = new ConfigurationManager(ts);
+    manager.updateFromEditorConfig({ jsEnable: true });
+    manager.updateFromPluginConfig({ jsEnable: false, exclude: "a" });
+
+    expect(manager.config.jsEnable).to.equal(true);
+    expect(manager.config.exclude).to.equal("a");
+    expect(manager.config.ignoreDefinitionFiles).to.equal(true);
+
+    manager.updateFromEditorConfig({});
+    expect(manager.config.jsEnable).to.equal(false);
+  });
+
+  it("should apply the overrides matching a file", () => {
+    const manager = new ConfigurationManager(ts);
+    manager.updateFromPluginConfig({
+      alwaysShowRuleFailuresAsWarnings: false,
+      overrides: [
+        { files: "**/test/**", alwaysShowRuleFailuresAsWarnings: true }
+      ]
+    });
+    manager.updateFromEditorConfig({
+      overrides: [{ files: "**/test/**", jsEnable: true }]
+    });
+
+    const testConfig = manager.getConfigForFile("/project/test/a.ts");
+    expect(testConfig.alwaysShowRuleFailuresAsWarnings).to.equal(true);
+    expect(testConfig.jsEnable).to.equal(true);
+    const srcConfig = manager.getConfigForFile("/project/src/a.ts");
+    expect(srcConfig.alwaysShowRuleFailuresAsWarnings).to.equal(false);
+    expect(srcConfig.jsEnable).to.equal(false);
+  });
+});
+
+describe("getRuleSeverityOverride", () => {
+  const overrides = {
+    "import/*": "suggestion",
+    "import/no-cycle": "error",
+    "@typescript-eslint/*": "off"
+  } as const;
+
+  it("should prefer rule ids over patterns", () => {
+    expect(getRuleSeverityOverride(overrides, "import/no-cycle")).to.equal(
+      "error"
+    );
+  });
+
+  it("should match rules with glob patterns", () => {
+    expect(getRuleSeverityOverride(overrides, "import/order")).to.equal(
+      "suggestion"
+    );
+    expect(
+      getRuleSeverityOverride(overrides, "@typescript-eslint/no-explicit-any")
+    ).to.equal("off");
+  });
+
+  it("should not override other rules and parser errors", () => {
+    expect(getRuleSeverityOverride(overrides, "no-console")).to.equal(
+      undefined
+    );
+    expect(getRuleSeverityOverride(overrides, null)).to.equal(undefined);
+  });
+});
+
+describe("getConfigurationDiagnostics", () => {
+  it("should report problems on the settings of the plugin entry", () => {
+    const configFilePath = path.join(
+      testDataRoot,
+      "invalid-settings",
+      "tsconfig.json"
+    );
+    const text = ts.sys.readFile(configFilePath)!;
+    const { problems } = validateConfiguration({
+      name: "typescript-eslint-plugin",
+      ignoreDefintionFiles: false,
+      exclude: 5
+    });
+
+    const diagnostics = getConfigurationDiagnostics(
+      ts,
+      configFilePath,
+      problems
+    );
+
+    expect(diagnostics.length).to.equal(2);
+    expect(diagnostics[0].category).to.equal(ts.DiagnosticCategory.Warning);
+    expect(
+      text.substr(diagnostics[0].start!, diagnostics[0].length)
+    ).to.equal(`"ignoreDefintionFiles": false`);
+    expect(diagnostics[1].start).to.equal(text.lastIndexOf(`"exclude": 5`));
+  });
+});
@@ -0,0 +1,7 @@
+module.exports = [
+  {
+    rules: {
+      "no-var": "error"
+    }
+  }
+];
@@ -0,0 +1,30 @@
+module.exports = {
+  meta: {
+    type: "suggestion",
+    docs: { description: "Suggest const or var instead of let" }
+  },
+  create(context) {
+    return {
+      VariableDeclaration(node) {
+        if (node.kind !== "let") {
+          return;
+        }
+        const letToken = context.getSourceCode().getFirstToken(node);
+        context.report({
+          node: letToken,
+          message: "Unexpected let.",
+          suggest: [
+            {
+              desc: "Use const",
+              fix: fixer => fixer.replaceText(letToken, "const")
+            },
+            {
+              desc: "Use var",
+              fix: fixer => fixer.replaceText(letToken, "var")
+            }
+          ]
+        });
+      }
+    };
+  }
+};
@@ -0,0 +1,14 @@
+module.exports = {
+  meta: {
+    type: "suggestion"
+  },
+  create(context) {
+    return {
+      VariableDeclarator(node) {
+        if (node.id.type === "Identifier" && node.id.name === "a") {
+          context.report({ node, message: "Do not name a variable 'a'." });
+        }
+      }
+    };
+  }
+};
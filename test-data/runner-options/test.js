@@ -0,0 +1,5 @@
+/* eslint no-console: "error" */
+var a = 1;
+if (a == 1) {
+  console.log(a); // eslint-disable-line no-var
+}
@@ -0,0 +1,18 @@
+// Records the options it is called with, see the shareProgram tests
+const espree = require("espree");
+
+exports.lastOptions = undefined;
+
+exports.parseForESLint = function (code, options) {
+  exports.lastOptions = options;
+  return {
+    ast: espree.parse(code, {
+      ecmaVersion: 2018,
+      sourceType: "module",
+      range: true,
+      loc: true,
+      tokens: true,
+      comment: true,
+    }),
+  };
+};
@@ -0,0 +1,8 @@
+module.exports = {
+  parser: "@typescript-eslint/parser",
+  plugins: ["@typescript-eslint"],
+  rules: {
+    "@typescript-eslint/array-type": "error",
+    quotes: ["error", "double"],
+  },
+};
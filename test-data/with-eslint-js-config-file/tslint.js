@@ -1,6 +0,0 @@
-module.exports = {
-    "rules": {
-        "array-type": true,
-        "quotemark": 1 === 1
-    }
-}
\ No newline at end of file